@@ -0,0 +1,169 @@
+import {
+  Locker,
+  LockerError,
+  LockType,
+  sleep,
+} from '@prismamedia/ts-distributed-lock';
+import os from 'os';
+import path from 'path';
+import { createCli, parseDuration } from '../cli';
+import adapter from './fixtures/adapter';
+
+const adapterPath = path.join(__dirname, 'fixtures', 'adapter.ts');
+
+async function run(...args: string[]): Promise<string> {
+  let stdout = '';
+
+  const cli = createCli({
+    stdout: { write: (chunk) => (stdout += chunk) },
+    stderr: { write: () => true },
+  }).exitOverride();
+
+  // The subcommands do not inherit it, as they are created beforehand
+  cli.commands.forEach((command) => command.exitOverride());
+
+  await cli.parseAsync(['--adapter', adapterPath, ...args], { from: 'user' });
+
+  return stdout;
+}
+
+describe('CLI', () => {
+  let locker: Locker;
+
+  beforeEach(async () => {
+    locker = new Locker(adapter);
+    await locker.releaseAll();
+  });
+
+  it('parses the durations', () => {
+    expect(parseDuration('500')).toBe(500);
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('30s')).toBe(30000);
+    expect(parseDuration('15m')).toBe(900000);
+    expect(parseDuration('2h')).toBe(7200000);
+    expect(parseDuration('1d')).toBe(86400000);
+    expect(() => parseDuration('0')).toThrowError();
+    expect(() => parseDuration('-1s')).toThrowError();
+    expect(() => parseDuration('1 week')).toThrowError();
+  });
+
+  it('lists and inspects the queues', async () => {
+    const writer = await locker.lockAsWriter('my-first-lock');
+    const reader = locker.lockAsReader('my-first-lock');
+    const otherReader = await locker.lockAsReader('my-second-lock');
+
+    const table = await run('list');
+    const lines = table.trimEnd().split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[0].split(/\s+/)).toEqual([
+      'NAME',
+      'ID',
+      'TYPE',
+      'HOLDER',
+      'ENQUEUEDAT',
+      'REFRESHEDAT',
+      'OWNER',
+    ]);
+    expect(lines[1]).toMatch(
+      new RegExp(
+        `^my-first-lock\\s+${writer.id}\\s+${LockType.Writer}\\s+true`,
+      ),
+    );
+    expect(lines[2]).toMatch(
+      new RegExp(`^my-first-lock\\s+\\w+\\s+${LockType.Reader}\\s+false`),
+    );
+    expect(lines[3]).toMatch(
+      new RegExp(
+        `^my-second-lock\\s+${otherReader.id}\\s+${LockType.Reader}\\s+true`,
+      ),
+    );
+
+    expect(
+      JSON.parse(await run('inspect', 'my-second-lock', '--format', 'json')),
+    ).toEqual({
+      name: 'my-second-lock',
+      entries: [
+        {
+          id: otherReader.id,
+          type: LockType.Reader,
+          holder: true,
+          enqueuedAt: otherReader.createdAt.toISOString(),
+          refreshedAt: expect.any(String),
+          owner: { hostname: os.hostname(), pid: process.pid },
+        },
+      ],
+    });
+
+    await expect(run('inspect', 'my-unknown-lock')).resolves.toBe('');
+
+    await locker.releaseMany([writer, otherReader]);
+    await locker.release(await reader);
+  });
+
+  it('releases the stuck locks', async () => {
+    const stuckLock = await new Locker(adapter).lockAsWriter('my-stuck-lock');
+    const reader = locker.lockAsReader('my-stuck-lock');
+
+    expect(
+      JSON.parse(
+        await run('release', 'my-stuck-lock', stuckLock.id, '--format', 'json'),
+      ),
+    ).toEqual({ name: 'my-stuck-lock', id: stuckLock.id, released: true });
+
+    await locker.release(await reader);
+
+    await expect(
+      run('release', 'my-stuck-lock', stuckLock.id),
+    ).rejects.toThrowError(LockerError);
+  });
+
+  it('purges the stale locks', async () => {
+    const staleLock = await locker.lockAsWriter('my-stale-lock');
+
+    expect(
+      JSON.parse(
+        await run('purge-stale', '--older-than', '1h', '--format', 'json'),
+      ),
+    ).toMatchObject({ collectedCount: 0 });
+
+    await sleep(100);
+
+    const freshLock = await locker.lockAsWriter('my-fresh-lock');
+
+    expect(
+      JSON.parse(
+        await run('purge-stale', '--older-than', '50ms', '--format', 'json'),
+      ),
+    ).toMatchObject({ collectedCount: 1 });
+
+    await expect(locker.inspect(staleLock.name)).resolves.toEqual({
+      name: staleLock.name,
+      entries: [],
+    });
+
+    await expect(locker.inspect(freshLock.name)).resolves.toMatchObject({
+      name: freshLock.name,
+      entries: [{ id: freshLock.id, holder: true }],
+    });
+
+    await locker.release(freshLock);
+  });
+
+  it('sets the adapter up', async () => {
+    await expect(run('setup', '--gc', '1m')).resolves.toMatch(/^SETUP\s+true/);
+
+    // The interval of the lockers is not guessed
+    await expect(run('setup')).rejects.toThrowError("'--gc <duration>'");
+  });
+
+  it('rejects the modules not exporting an adapter', async () => {
+    await expect(
+      createCli()
+        .exitOverride()
+        .parseAsync(
+          ['--adapter', path.join(__dirname, '..', 'format.ts'), 'list'],
+          { from: 'user' },
+        ),
+    ).rejects.toThrowError('does not export an adapter');
+  });
+});
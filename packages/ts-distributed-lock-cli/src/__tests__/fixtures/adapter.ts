@@ -0,0 +1,4 @@
+import { InMemoryAdapter } from '@prismamedia/ts-distributed-lock';
+
+// Shared by the tests and the commands
+export default new InMemoryAdapter();
@@ -0,0 +1,47 @@
+import {
+  AdapterInterface,
+  InMemoryAdapter,
+} from '@prismamedia/ts-distributed-lock';
+import { MongoDBAdapter } from '@prismamedia/ts-distributed-lock-mongodb-adapter';
+import path from 'path';
+
+const isAdapter = (maybeAdapter: unknown): maybeAdapter is AdapterInterface => {
+  if (typeof maybeAdapter !== 'object' || maybeAdapter === null) {
+    return false;
+  }
+
+  const { lock, release, releaseAll } = maybeAdapter as Record<string, unknown>;
+
+  return (
+    typeof lock === 'function' &&
+    typeof release === 'function' &&
+    typeof releaseAll === 'function'
+  );
+};
+
+/**
+ * Loads the adapter from either:
+ * - "memory", for an "in-memory" adapter
+ * - a MongoDB URL
+ * - the path of a module exporting, as default, an adapter or a function returning one
+ */
+export async function loadAdapter(adapter: string): Promise<AdapterInterface> {
+  if (adapter === 'memory') {
+    return new InMemoryAdapter();
+  } else if (/^mongodb(\+srv)?:\/\//.test(adapter)) {
+    return new MongoDBAdapter(adapter);
+  }
+
+  const exported = require(path.resolve(adapter));
+  const factory = exported?.default ?? exported;
+  const loadedAdapter =
+    typeof factory === 'function' ? await factory() : factory;
+
+  if (!isAdapter(loadedAdapter)) {
+    throw new Error(
+      `The module "${adapter}" does not export an adapter, nor a function returning one`,
+    );
+  }
+
+  return loadedAdapter;
+}
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+import { createCli } from './cli';
+
+createCli()
+  .parseAsync(process.argv)
+  .then(
+    // An adapter without "close" may keep some connections open
+    () => process.exit(),
+    (error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    },
+  );
@@ -0,0 +1,197 @@
+import {
+  AdapterInterface,
+  AdapterQueue,
+  formatLockOwner,
+  Locker,
+  LockerError,
+  LockSet,
+} from '@prismamedia/ts-distributed-lock';
+import { Command, InvalidArgumentError, Option } from 'commander';
+import { loadAdapter } from './adapter';
+import { formatJson, formatTable, OutputFormat, Row } from './format';
+
+export type CliOutput = {
+  write(chunk: string): unknown;
+};
+
+export type CliOptions = Partial<{
+  /**
+   * Optional, where the results are written, default: process.stdout
+   */
+  stdout: CliOutput;
+
+  /**
+   * Optional, where the errors and the help are written, default: process.stderr
+   */
+  stderr: CliOutput;
+}>;
+
+const durationUnits: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration, as "500", "500ms", "30s", "15m", "2h" or "1d", in ms
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+)(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) {
+    throw new InvalidArgumentError(
+      `Expects a duration, as "500ms", "30s", "15m", "2h" or "1d"`,
+    );
+  }
+
+  const duration = Number(match[1]) * durationUnits[match[2] ?? 'ms'];
+  if (duration <= 0) {
+    throw new InvalidArgumentError(`Expects a duration greater than 0`);
+  }
+
+  return duration;
+}
+
+const toRows = (queues: AdapterQueue[]): Row[] =>
+  queues.flatMap(({ name, entries }) =>
+    entries.map(({ id, type, holder, enqueuedAt, refreshedAt, owner }) => ({
+      name,
+      id,
+      type,
+      holder,
+      enqueuedAt,
+      refreshedAt,
+      owner: owner && formatLockOwner(owner),
+    })),
+  );
+
+/**
+ * Creates the "ts-distributed-lock" command, to administrate the locks of an adapter
+ */
+export function createCli({
+  stdout = process.stdout,
+  stderr = process.stderr,
+}: CliOptions = {}): Command {
+  const program = new Command('ts-distributed-lock')
+    .description('Administrates the distributed locks')
+    .requiredOption(
+      '-a, --adapter <adapter>',
+      '"memory", a MongoDB URL or the path of a module exporting an adapter',
+    )
+    .addOption(
+      new Option('-f, --format <format>', 'the output format')
+        .choices(Object.values(OutputFormat))
+        .default(OutputFormat.Table),
+    )
+    .configureOutput({
+      writeOut: (str) => stdout.write(str),
+      writeErr: (str) => stderr.write(str),
+    });
+
+  /**
+   * Runs the given action with the adapter, closed afterwards
+   */
+  const withAdapter = async <TResult>(
+    action: (adapter: AdapterInterface) => Promise<TResult>,
+  ): Promise<TResult> => {
+    const adapter = await loadAdapter(program.opts().adapter);
+
+    try {
+      return await action(adapter);
+    } finally {
+      await adapter.close?.();
+    }
+  };
+
+  const output = (json: unknown, rows: Row[]): void => {
+    stdout.write(
+      program.opts().format === OutputFormat.Json
+        ? formatJson(json)
+        : formatTable(rows),
+    );
+  };
+
+  program
+    .command('list')
+    .description('lists the non-empty queues')
+    .action(async () => {
+      const queues = await withAdapter((adapter) => new Locker(adapter).list());
+
+      output(queues, toRows(queues));
+    });
+
+  program
+    .command('inspect <name>')
+    .description("inspects the queue of the lock's name")
+    .action(async (name: string) => {
+      const queue = await withAdapter((adapter) =>
+        new Locker(adapter).inspect(name),
+      );
+
+      output(queue, toRows([queue]));
+    });
+
+  program
+    .command('release <name> <id>')
+    .description('releases the given lock, whoever owns it')
+    .action(async (name: string, id: string) => {
+      const released = await withAdapter((adapter) =>
+        new Locker(adapter).forceRelease(name, id),
+      );
+
+      output({ name, id, released }, [{ name, id, released }]);
+
+      if (!released) {
+        throw new LockerError(`The lock "${name}/${id}" was not in the queue`);
+      }
+    });
+
+  program
+    .command('purge-stale')
+    .description('deletes the locks not refreshed for a while')
+    .requiredOption(
+      '--older-than <duration>',
+      'the duration since their last refresh, as "30s", "15m" or "1h"',
+      parseDuration,
+    )
+    .action(async ({ olderThan }: { olderThan: number }) => {
+      const at = new Date();
+      const staleAt = new Date(at.getTime() - olderThan);
+
+      const { collectedCount } = await withAdapter(async (adapter) => {
+        if (!adapter.gc) {
+          throw new LockerError(
+            `The adapter does not support garbage collecting`,
+          );
+        }
+
+        // No lock to refresh, only the stale ones to collect
+        return adapter.gc({
+          lockSet: new LockSet(),
+          gcInterval: olderThan,
+          at,
+          staleAt,
+        });
+      });
+
+      output({ staleAt, collectedCount }, [{ staleAt, collectedCount }]);
+    });
+
+  program
+    .command('setup')
+    .description('sets the adapter up')
+    // Required, as the adapters set themselves up for it: without it, the MongoDB one drops its TTL index
+    .requiredOption(
+      '--gc <duration>',
+      'the garbage collector interval of the lockers, as "30s" or "1m"',
+      parseDuration,
+    )
+    .action(async ({ gc }: { gc: number }) => {
+      await withAdapter(async (adapter) => adapter.setup?.({ gcInterval: gc }));
+
+      output({ setup: true }, [{ setup: true }]);
+    });
+
+  return program;
+}
@@ -0,0 +1,46 @@
+export enum OutputFormat {
+  Table = 'table',
+  Json = 'json',
+}
+
+export type Row = Record<string, unknown>;
+
+const formatCell = (value: unknown): string =>
+  value instanceof Date
+    ? value.toISOString()
+    : value == null
+    ? ''
+    : String(value);
+
+/**
+ * Renders the rows as a table, with a column per key of the first row
+ */
+export function formatTable(rows: Row[]): string {
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const keys = Object.keys(rows[0]);
+  const lines = [
+    keys.map((key) => key.toUpperCase()),
+    ...rows.map((row) => keys.map((key) => formatCell(row[key]))),
+  ];
+
+  const widths = keys.map((_key, index) =>
+    Math.max(...lines.map((cells) => cells[index].length)),
+  );
+
+  return lines
+    .map(
+      (cells) =>
+        `${cells
+          .map((cell, index) => cell.padEnd(widths[index]))
+          .join('  ')
+          .trimEnd()}\n`,
+    )
+    .join('');
+}
+
+export function formatJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
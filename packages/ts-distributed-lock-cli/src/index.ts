@@ -0,0 +1,7 @@
+import { createCli } from './cli';
+
+export * from './adapter';
+export * from './cli';
+export * from './format';
+
+export default createCli;
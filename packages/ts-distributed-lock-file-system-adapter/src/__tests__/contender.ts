@@ -0,0 +1,32 @@
+import {
+  fixedWaitStrategy,
+  Locker,
+  sleep,
+} from '@prismamedia/ts-distributed-lock';
+import { promises as fs } from 'fs';
+import { FileSystemAdapter } from '../file-system-adapter';
+
+/**
+ * Run as a child process by the test suite: writes its critical sections into the "output" file
+ */
+const [directory, lockName, output, iterations] = process.argv.slice(2);
+
+(async () => {
+  const locker = new Locker(new FileSystemAdapter(directory));
+
+  for (let i = 0; i < parseInt(iterations, 10); i++) {
+    await locker.ensureWritingTaskConcurrency(
+      lockName,
+      async () => {
+        await fs.appendFile(output, `start ${process.pid}\n`);
+        await sleep(5);
+        await fs.appendFile(output, `end ${process.pid}\n`);
+      },
+      { waitStrategy: fixedWaitStrategy(5) },
+    );
+  }
+})().catch((error) => {
+  console.error(error);
+
+  process.exit(1);
+});
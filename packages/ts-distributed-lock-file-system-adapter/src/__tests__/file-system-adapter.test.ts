@@ -0,0 +1,199 @@
+import {
+  LockName,
+  LockSet,
+  LockType,
+  sleep,
+  testAdapter,
+} from '@prismamedia/ts-distributed-lock';
+import { fork } from 'child_process';
+import { mkdtempSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSystemAdapter } from '../file-system-adapter';
+
+async function remove(directory: string): Promise<void> {
+  for (const dirent of await fs.readdir(directory, { withFileTypes: true })) {
+    const entry = path.join(directory, dirent.name);
+
+    await (dirent.isDirectory() ? remove(entry) : fs.unlink(entry));
+  }
+
+  await fs.rmdir(directory);
+}
+
+describe('FileSystemAdapter', () => {
+  const directory = mkdtempSync(path.join(os.tmpdir(), 'ts-distributed-lock-'));
+
+  afterAll(async () => {
+    await remove(directory);
+  });
+
+  testAdapter(() => new FileSystemAdapter(directory));
+
+  it('works with several processes contending', async () => {
+    const output = path.join(directory, 'output.log');
+    const processCount = 5;
+    const iterations = 10;
+
+    await Promise.all(
+      [...new Array(processCount)].map(
+        () =>
+          new Promise<void>((resolve, reject) =>
+            fork(
+              path.join(__dirname, 'contender.ts'),
+              [directory, 'multi-process', output, String(iterations)],
+              {
+                execArgv: [
+                  '--require',
+                  require.resolve('ts-node/register/transpile-only'),
+                ],
+              },
+            )
+              .on('error', reject)
+              .on('exit', (code) =>
+                code === 0
+                  ? resolve()
+                  : reject(new Error(`The contender exited with ${code}`)),
+              ),
+          ),
+      ),
+    );
+
+    const lines = (await fs.readFile(output, 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(processCount * iterations * 2);
+
+    // The critical sections never overlap
+    for (let i = 0; i < lines.length; i += 2) {
+      const [start, startPid] = lines[i].split(' ');
+      const [end, endPid] = lines[i + 1].split(' ');
+
+      expect([start, end]).toEqual(['start', 'end']);
+      expect(startPid).toBe(endPid);
+    }
+  }, 60000);
+
+  it('takes over the abandoned mutexes only', async () => {
+    const adapter = new (class extends FileSystemAdapter {
+      public withMutex<TResult>(
+        name: LockName,
+        task: () => Promise<TResult>,
+      ): Promise<TResult> {
+        return super.withMutex(name, task);
+      }
+    })(directory, { mutexTimeout: 200 });
+
+    const name: LockName = 'my-mutex';
+    const nameDirectory = path.join(directory, name);
+    await fs.mkdir(nameDirectory, { recursive: true });
+
+    // Abandoned by a crashed process
+    const mutex = path.join(nameDirectory, '.mutex');
+    const abandonedAt = new Date(Date.now() - 1000);
+    await fs.writeFile(mutex, 'my-crashed-process');
+    await fs.utimes(mutex, abandonedAt, abandonedAt);
+
+    // The mutex is refreshed while held for longer than its timeout
+    const events: string[] = [];
+    await Promise.all([
+      adapter.withMutex(name, async () => {
+        events.push('start');
+        await sleep(600);
+        events.push('end');
+      }),
+      sleep(50).then(() =>
+        adapter.withMutex(name, async () => {
+          events.push('start');
+          events.push('end');
+        }),
+      ),
+    ]);
+
+    expect(events).toEqual(['start', 'end', 'start', 'end']);
+    await expect(fs.readdir(nameDirectory)).resolves.toEqual([]);
+  });
+
+  it('keeps fresh the mutexes acquired after a long wait', async () => {
+    const adapter = new (class extends FileSystemAdapter {
+      public withMutex<TResult>(
+        name: LockName,
+        task: () => Promise<TResult>,
+      ): Promise<TResult> {
+        return super.withMutex(name, task);
+      }
+    })(directory, { mutexTimeout: 200 });
+
+    const name: LockName = 'my-awaited-mutex';
+    await fs.mkdir(path.join(directory, name), { recursive: true });
+
+    const events: string[] = [];
+    const criticalSection = (id: string, duration: number) => async () => {
+      events.push(`start ${id}`);
+      await sleep(duration);
+      events.push(`end ${id}`);
+    };
+
+    // The second contender waits for longer than the "mutexTimeout", the third one comes before its mutex is refreshed
+    await Promise.all([
+      adapter.withMutex(name, criticalSection('first', 500)),
+      sleep(20).then(() =>
+        adapter.withMutex(name, criticalSection('second', 300)),
+      ),
+      sleep(550).then(() =>
+        adapter.withMutex(name, criticalSection('third', 0)),
+      ),
+    ]);
+
+    expect(events).toEqual([
+      'start first',
+      'end first',
+      'start second',
+      'end second',
+      'start third',
+      'end third',
+    ]);
+  });
+
+  it('collects all the stale entries in a single cycle', async () => {
+    // Not to collect the entries of the other tests
+    const gcDirectory = mkdtempSync(
+      path.join(os.tmpdir(), 'ts-distributed-lock-'),
+    );
+
+    try {
+      const adapter = new FileSystemAdapter(gcDirectory);
+
+      const nameDirectory = path.join(gcDirectory, 'my-stale-queue');
+      await fs.mkdir(nameDirectory, { recursive: true });
+
+      // A crashed process' holder, the waiting entry of another crashed process, and the temporary files they left
+      const staleAt = new Date(Date.now() - 1000);
+      for (const filename of [
+        `1-${LockType.Writer}-a1b2c3d4`,
+        `2-${LockType.Writer}-e5f6a7b8`,
+        '.mutex.0123456789abcdef',
+        '.e5f6a7b8.tmp',
+        '.fencing-token.a1b2c3d4.tmp',
+      ]) {
+        const file = path.join(nameDirectory, filename);
+        await fs.writeFile(file, '');
+        await fs.utimes(file, staleAt, staleAt);
+      }
+
+      await expect(
+        adapter.gc({
+          lockSet: new LockSet(),
+          gcInterval: 250,
+          at: new Date(),
+          staleAt: new Date(staleAt.getTime() + 1),
+        }),
+      ).resolves.toEqual({
+        collectedCount: 2,
+        refreshedCount: 0,
+        missingIds: [],
+      });
+      await expect(fs.readdir(nameDirectory)).resolves.toEqual([]);
+    } finally {
+      await remove(gcDirectory);
+    }
+  });
+});
@@ -0,0 +1,629 @@
+import {
+  AdapterGarbageCollectorParams,
+  AdapterInterface,
+  AdapterQueue,
+  AdapterQueueEntry,
+  GarbageCycle,
+  getHolders,
+  Lock,
+  LockError,
+  LockId,
+  LockName,
+  LockOwner,
+  LockStatus,
+  LockType,
+  sleep,
+} from '@prismamedia/ts-distributed-lock';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * An entry of the queue is a file named "position-type-id", containing its details as JSON
+ */
+type QueueEntry = {
+  position: number;
+  type: LockType;
+  id: LockId;
+  filename: string;
+};
+
+type EntryDetails = {
+  enqueuedAt: number;
+  owner: LockOwner;
+};
+
+const entryFilenameRegExp = new RegExp(
+  `^(\\d+)-(${Object.values(LockType).join('|')})-(\\w+)$`,
+);
+
+/**
+ * The temporary files, as the candidates to the mutex and the entries or "fencingToken"s being written, all short-lived unless their process has crashed
+ */
+const temporaryFilenameRegExp = /^\.(mutex\..+|.+\.tmp)$/;
+
+function isErrorCode(error: unknown, code: string): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    (error as { code: unknown }).code === code
+  );
+}
+
+export type FileSystemAdapterOptions = {
+  /**
+   * Time, in ms, after which the mutex of a lock's name is considered as abandoned by a crashed process
+   *
+   * Default: 10000
+   */
+  mutexTimeout?: number;
+};
+
+/**
+ * For the processes of a single host as they share the same file-system
+ */
+export class FileSystemAdapter implements AdapterInterface {
+  #directory: string;
+  #mutexTimeout: number;
+
+  public constructor(
+    /**
+     * The directory where the locks are stored
+     */
+    directory: string,
+    { mutexTimeout }: FileSystemAdapterOptions = {},
+  ) {
+    this.#directory = path.resolve(directory);
+    this.#mutexTimeout = Math.max(1, mutexTimeout || 10000);
+  }
+
+  protected getNameDirectory(name: LockName): string {
+    return path.join(
+      this.#directory,
+      encodeURIComponent(name).replace(/\./g, '%2E'),
+    );
+  }
+
+  protected async getNameDirectories(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.#directory, { withFileTypes: true }))
+        .filter((dirent) => dirent.isDirectory())
+        .map((dirent) => path.join(this.#directory, dirent.name));
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) {
+        return [];
+      }
+
+      throw error;
+    }
+  }
+
+  protected async getQueueFromDirectory(
+    directory: string,
+  ): Promise<QueueEntry[]> {
+    let filenames: string[];
+
+    try {
+      filenames = await fs.readdir(directory);
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) {
+        return [];
+      }
+
+      throw error;
+    }
+
+    const queue: QueueEntry[] = [];
+
+    for (const filename of filenames) {
+      const match = filename.match(entryFilenameRegExp);
+      if (match) {
+        queue.push({
+          position: parseInt(match[1], 10),
+          type: match[2] as LockType,
+          id: match[3],
+          filename,
+        });
+      }
+    }
+
+    return queue.sort((a, b) => a.position - b.position);
+  }
+
+  protected async getTemporaryFilenamesFromDirectory(
+    directory: string,
+  ): Promise<string[]> {
+    try {
+      return (await fs.readdir(directory)).filter((filename) =>
+        temporaryFilenameRegExp.test(filename),
+      );
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) {
+        return [];
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Returns "true" if the given file has been deleted, as it had not been refreshed since "staleAt"
+   */
+  protected async deleteIfStale(file: string, staleAt: Date): Promise<boolean> {
+    try {
+      const { mtime } = await fs.stat(file);
+      if (mtime < staleAt) {
+        await fs.unlink(file);
+
+        return true;
+      }
+    } catch (error) {
+      if (!isErrorCode(error, 'ENOENT')) {
+        throw error;
+      }
+    }
+
+    return false;
+  }
+
+  protected async getQueue(lock: Lock): Promise<QueueEntry[]> {
+    return this.getQueueFromDirectory(this.getNameDirectory(lock.name));
+  }
+
+  protected isAbandoned(mtime: Date): boolean {
+    return Date.now() - mtime.getTime() > this.#mutexTimeout;
+  }
+
+  /**
+   * Deletes the mutex if it has been abandoned by a crashed process: the contenders take it over one at a time, through an exclusive file named after its inode, and only while it is still the one found abandoned
+   */
+  protected async takeOverAbandonedMutex(mutex: string): Promise<void> {
+    let ino: number;
+
+    try {
+      const stats = await fs.stat(mutex);
+      if (!this.isAbandoned(stats.mtime)) {
+        return;
+      }
+
+      ino = stats.ino;
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) {
+        return;
+      }
+
+      throw error;
+    }
+
+    const takeover = `${mutex}.${ino}.takeover`;
+
+    try {
+      await fs.writeFile(takeover, '', { flag: 'wx' });
+    } catch (error) {
+      if (isErrorCode(error, 'EEXIST')) {
+        // Another contender is taking it over, unless it has crashed meanwhile
+        await this.deleteIfStale(
+          takeover,
+          new Date(Date.now() - this.#mutexTimeout),
+        );
+
+        return;
+      }
+
+      throw error;
+    }
+
+    try {
+      // It may have been deleted, then acquired again, meanwhile
+      const stats = await fs.stat(mutex);
+      if (stats.ino === ino && this.isAbandoned(stats.mtime)) {
+        await fs.unlink(mutex);
+      }
+    } catch (error) {
+      if (!isErrorCode(error, 'ENOENT')) {
+        throw error;
+      }
+    } finally {
+      await fs.unlink(takeover);
+    }
+  }
+
+  /**
+   * The enqueuings and the "fencingToken"s of a lock's name are serialized by a mutex, a file containing the token of its holder and refreshed while held
+   */
+  protected async withMutex<TResult>(
+    name: LockName,
+    task: () => Promise<TResult>,
+  ): Promise<TResult> {
+    const mutex = path.join(this.getNameDirectory(name), '.mutex');
+    const token = crypto.randomBytes(8).toString('hex');
+    const candidate = `${mutex}.${token}`;
+
+    while (true) {
+      // The mutex appears atomically, along with its token, and as fresh as its acquisition however long the wait
+      await fs.writeFile(candidate, token);
+
+      try {
+        await fs.link(candidate, mutex);
+
+        break;
+      } catch (error) {
+        if (!isErrorCode(error, 'EEXIST')) {
+          throw error;
+        }
+      } finally {
+        await fs.unlink(candidate);
+      }
+
+      await this.takeOverAbandonedMutex(mutex);
+
+      // A random delay, so the contenders do not flood the file-system
+      await sleep(Math.ceil(Math.random() * 10));
+    }
+
+    const refreshIntervalId = setInterval(() => {
+      const at = new Date();
+
+      fs.utimes(mutex, at, at).catch(() => {
+        // Do nothing, the task is not interrupted
+      });
+    }, Math.max(1, Math.floor(this.#mutexTimeout / 2)));
+
+    try {
+      return await task();
+    } finally {
+      clearInterval(refreshIntervalId);
+
+      // The mutex may have been taken over if this process has been frozen for too long
+      let holderToken: string | undefined;
+      try {
+        holderToken = await fs.readFile(mutex, 'utf-8');
+      } catch (error) {
+        if (!isErrorCode(error, 'ENOENT')) {
+          throw error;
+        }
+      }
+
+      if (holderToken === token) {
+        await fs.unlink(mutex);
+      }
+    }
+  }
+
+  /**
+   * Delete the locks not refreshed soon enought, the waiting ones included, so a single cycle collects all the stale entries
+   *
+   * The temporary files left by the crashed processes are deleted along with them, without being counted, while an abandoned mutex is left to its next contender
+   */
+  protected async gcCollect({
+    staleAt,
+  }: AdapterGarbageCollectorParams): Promise<number> {
+    let collectedCount: number = 0;
+
+    await Promise.all(
+      (
+        await this.getNameDirectories()
+      ).map(async (directory) => {
+        const [queue, temporaryFilenames] = await Promise.all([
+          this.getQueueFromDirectory(directory),
+          this.getTemporaryFilenamesFromDirectory(directory),
+        ]);
+
+        await Promise.all([
+          ...queue.map(async ({ filename }) => {
+            if (
+              await this.deleteIfStale(path.join(directory, filename), staleAt)
+            ) {
+              collectedCount++;
+            }
+          }),
+          ...temporaryFilenames.map(async (filename) => {
+            await this.deleteIfStale(path.join(directory, filename), staleAt);
+          }),
+        ]);
+      }),
+    );
+
+    return collectedCount;
+  }
+
+  /**
+   * Refresh the registered locks
+   */
+  protected async gcRefresh({
+    lockSet,
+    at,
+  }: AdapterGarbageCollectorParams): Promise<
+    Pick<GarbageCycle, 'refreshedCount' | 'missingIds'>
+  > {
+    const refreshedIds = new Set<LockId>();
+
+    // Each queue is read once, whatever the number of its locks to refresh
+    const idsByName = new Map<LockName, Set<LockId>>();
+    for (const lock of lockSet) {
+      let ids = idsByName.get(lock.name);
+      if (!ids) {
+        ids = new Set();
+        idsByName.set(lock.name, ids);
+      }
+
+      ids.add(lock.id);
+    }
+
+    await Promise.all(
+      [...idsByName].map(async ([name, ids]) => {
+        const directory = this.getNameDirectory(name);
+
+        await Promise.all(
+          (
+            await this.getQueueFromDirectory(directory)
+          )
+            .filter(({ id }) => ids.has(id))
+            .map(async ({ id, filename }) => {
+              try {
+                await fs.utimes(path.join(directory, filename), at, at);
+                refreshedIds.add(id);
+              } catch (error) {
+                if (!isErrorCode(error, 'ENOENT')) {
+                  throw error;
+                }
+              }
+            }),
+        );
+      }),
+    );
+
+    return {
+      refreshedCount: refreshedIds.size,
+      missingIds: lockSet.getIds().filter((id) => !refreshedIds.has(id)),
+    };
+  }
+
+  public async gc(
+    params: AdapterGarbageCollectorParams,
+  ): Promise<GarbageCycle> {
+    const [collectedCount, { refreshedCount, missingIds }] = await Promise.all([
+      this.gcCollect(params),
+      this.gcRefresh(params),
+    ]);
+
+    return {
+      collectedCount,
+      refreshedCount,
+      missingIds,
+    };
+  }
+
+  public async setup() {
+    await fs.mkdir(this.#directory, { recursive: true });
+  }
+
+  public async releaseAll() {
+    for (const directory of await this.getNameDirectories()) {
+      for (const { filename } of await this.getQueueFromDirectory(directory)) {
+        try {
+          await fs.unlink(path.join(directory, filename));
+        } catch (error) {
+          if (!isErrorCode(error, 'ENOENT')) {
+            throw error;
+          }
+        }
+      }
+    }
+  }
+
+  protected async enqueueLock(lock: Lock): Promise<QueueEntry[]> {
+    const directory = this.getNameDirectory(lock.name);
+
+    try {
+      await fs.mkdir(directory, { recursive: true });
+
+      return await this.withMutex(lock.name, async () => {
+        const queue = await this.getQueueFromDirectory(directory);
+
+        const entry: QueueEntry = {
+          position: Math.max(0, ...queue.map(({ position }) => position)) + 1,
+          type: lock.type,
+          id: lock.id,
+          filename: '',
+        };
+        entry.filename = `${entry.position}-${entry.type}-${entry.id}`;
+
+        // The entry appears atomically in the queue, as fresh as its actual enqueuing
+        const temporary = path.join(directory, `.${lock.id}.tmp`);
+        await fs.writeFile(
+          temporary,
+          JSON.stringify({
+            enqueuedAt: lock.createdAt.getTime(),
+            owner: lock.owner,
+          } as EntryDetails),
+        );
+        await fs.rename(temporary, path.join(directory, entry.filename));
+
+        return [...queue, entry];
+      });
+    } catch (error) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" has not been enqueued: ${error.message}`,
+      );
+    }
+  }
+
+  public async inspect(name: LockName): Promise<AdapterQueue> {
+    const directory = this.getNameDirectory(name);
+    const queue = await this.getQueueFromDirectory(directory);
+
+    // As the holders are not recorded, the locks are granted in their order of arrival
+    const holders = getHolders(queue);
+
+    const entries = await Promise.all(
+      queue.map(
+        async (
+          { id, type, filename },
+          index,
+        ): Promise<AdapterQueueEntry | undefined> => {
+          const entry = path.join(directory, filename);
+
+          try {
+            const [{ mtime }, details] = await Promise.all([
+              fs.stat(entry),
+              fs.readFile(entry, 'utf-8'),
+            ]);
+
+            // The entries enqueued by the previous versions are empty
+            const { enqueuedAt, owner }: Partial<EntryDetails> = details
+              ? JSON.parse(details)
+              : {};
+
+            return {
+              id,
+              type,
+              holder: holders[index],
+              enqueuedAt: enqueuedAt ? new Date(enqueuedAt) : mtime,
+              refreshedAt: mtime,
+              ...(owner && { owner }),
+            };
+          } catch (error) {
+            // It has been dequeued meanwhile
+            if (isErrorCode(error, 'ENOENT')) {
+              return undefined;
+            }
+
+            throw error;
+          }
+        },
+      ),
+    );
+
+    return {
+      name,
+      entries: entries.filter(
+        (entry): entry is AdapterQueueEntry => entry !== undefined,
+      ),
+    };
+  }
+
+  protected async dequeueLock(lock: Lock, ifExists: boolean): Promise<boolean> {
+    const entry = (await this.getQueue(lock)).find(({ id }) => id === lock.id);
+
+    let removed: boolean = false;
+    if (entry) {
+      try {
+        await fs.unlink(
+          path.join(this.getNameDirectory(lock.name), entry.filename),
+        );
+
+        removed = true;
+      } catch (error) {
+        if (!isErrorCode(error, 'ENOENT')) {
+          throw error;
+        }
+      }
+    }
+
+    if (!removed && !ifExists) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" was not in the queue anymore`,
+      );
+    }
+
+    return removed;
+  }
+
+  /**
+   * The "fencingToken" is handed out only if the lock still holds, checked under the same mutex: a lock collected meanwhile is not handed out one greater than the one of the next holder
+   */
+  protected async generateFencingToken(
+    lock: Lock,
+  ): Promise<number | undefined> {
+    const directory = this.getNameDirectory(lock.name);
+    const file = path.join(directory, '.fencing-token');
+
+    return this.withMutex(lock.name, async () => {
+      if (!this.isHolder(lock, await this.getQueue(lock))) {
+        return undefined;
+      }
+
+      let fencingToken: number = 0;
+
+      try {
+        fencingToken = parseInt(await fs.readFile(file, 'utf-8'), 10) || 0;
+      } catch (error) {
+        if (!isErrorCode(error, 'ENOENT')) {
+          throw error;
+        }
+      }
+
+      fencingToken++;
+
+      const temporary = path.join(directory, `.fencing-token.${lock.id}.tmp`);
+      await fs.writeFile(temporary, String(fencingToken));
+      await fs.rename(temporary, file);
+
+      return fencingToken;
+    });
+  }
+
+  protected isHolder(lock: Lock, queue: QueueEntry[]): boolean {
+    if (!queue.find(({ id }) => id === lock.id)) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" is not in the queue anymore`,
+      );
+    }
+
+    // As the holders are not recorded, the locks are granted in their order of arrival
+    return getHolders(queue)[queue.findIndex(({ id }) => id === lock.id)];
+  }
+
+  protected async isLockAcquired(
+    lock: Lock,
+    queue: QueueEntry[],
+  ): Promise<boolean> {
+    if (!this.isHolder(lock, queue)) {
+      return false;
+    }
+
+    const fencingToken = await this.generateFencingToken(lock);
+    if (fencingToken === undefined) {
+      return false;
+    }
+
+    lock.fencingToken = fencingToken;
+    lock.status = LockStatus.Acquired;
+
+    return true;
+  }
+
+  public async lock(lock: Lock) {
+    // Create the lock's file into the dedicated directory
+    const queue = await this.enqueueLock(lock);
+
+    // Either we acquired the lock immediately ...
+    if (!(await this.isLockAcquired(lock, queue))) {
+      //... or we start pulling according to the "waitStrategy"
+      try {
+        while (
+          (await lock.wait()) &&
+          lock.isAcquiring() &&
+          !(await this.isLockAcquired(lock, await this.getQueue(lock)))
+        ) {
+          // Nothing to do here
+        }
+      } finally {
+        if (!lock.isAcquired()) {
+          await this.dequeueLock(lock, true);
+        }
+      }
+    }
+  }
+
+  public async release(lock: Lock) {
+    await this.dequeueLock(lock, false);
+
+    lock.status = LockStatus.Released;
+  }
+}
@@ -0,0 +1,5 @@
+import { FileSystemAdapter } from './file-system-adapter';
+
+export * from './file-system-adapter';
+
+export default FileSystemAdapter;
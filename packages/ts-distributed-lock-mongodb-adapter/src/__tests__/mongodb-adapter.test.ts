@@ -1,4 +1,11 @@
-import { testAdapter } from '@prismamedia/ts-distributed-lock';
+import {
+  fixedWaitStrategy,
+  Lock,
+  Locker,
+  sleep,
+  testAdapter,
+} from '@prismamedia/ts-distributed-lock';
+import { MongoMemoryReplSet } from 'mongodb-memory-server-core';
 import { MongoDBAdapter } from '../mongodb-adapter';
 
 describe('MongoDBAdapter', () => {
@@ -27,4 +34,49 @@ describe('MongoDBAdapter', () => {
 
     return new MongoDBAdapter(process.env.MONGODB_URL);
   });
+
+  describe('with change streams', () => {
+    let replSet: MongoMemoryReplSet;
+
+    beforeAll(async () => {
+      replSet = await MongoMemoryReplSet.create({
+        replSet: { count: 1, storageEngine: 'wiredTiger' },
+      });
+    }, 60000);
+
+    afterAll(async () => {
+      await replSet?.stop();
+    });
+
+    it('acquires the waiting locks on change, not according to the "waitStrategy"', async () => {
+      const locker = new Locker(
+        new MongoDBAdapter(replSet.getUri(), { changeStream: true }),
+      );
+
+      try {
+        await locker.setup();
+
+        const lockName = 'my-watched-lock';
+        const writer = await locker.lockAsWriter(lockName);
+        const waitingWriter = locker.lockAsWriter(lockName, {
+          waitStrategy: fixedWaitStrategy(60000),
+          acquireTimeout: 1000,
+        });
+
+        await sleep(100);
+        await locker.release(writer);
+
+        await expect(waitingWriter).resolves.toBeInstanceOf(Lock);
+
+        await locker.releaseAll();
+      } finally {
+        // Closes the adapter too, along with its client and change stream
+        await locker.close();
+      }
+    });
+
+    testAdapter(
+      () => new MongoDBAdapter(replSet.getUri(), { changeStream: true }),
+    );
+  });
 });
@@ -1,18 +1,27 @@
 import {
   AdapterGarbageCollectorParams,
   AdapterInterface,
+  AdapterQueue,
   AdapterSetupParams,
+  areLocksCompatible,
+  DeadlockLockError,
+  FairnessPolicy,
   GarbageCycle,
+  getHolders,
+  getIncompatibleTypes,
+  getQueuePosition,
   Lock,
   LockError,
   LockId,
   LockName,
+  LockOwner,
   LockStatus,
   LockType,
-  sleep,
 } from '@prismamedia/ts-distributed-lock';
 import { Memoize } from '@prismamedia/ts-memoize';
 import {
+  ChangeStream,
+  ChangeStreamDocument,
   Collection,
   CreateIndexesOptions,
   Db,
@@ -30,14 +39,78 @@ type IndexDefinition = {
   options: SetRequired<CreateIndexesOptions, 'name'>;
 };
 
+type QueueEntry = {
+  id: LockId;
+  type: LockType;
+  /**
+   * Missing from the entries enqueued by the previous versions
+   */
+  enqueuedAt?: Date;
+  at: Date;
+  /**
+   * A lock being upgraded already acts as a "writer" lock for the ones following it
+   */
+  upgrading?: boolean;
+  /**
+   * Set once the lock has been granted, missing from the entries enqueued by the previous versions
+   */
+  held?: boolean;
+  /**
+   * Set along with "held", missing from the entries granted by the previous versions
+   */
+  fencingToken?: number;
+  /**
+   * Only for the "semaphore" locks
+   */
+  permits?: number;
+  /**
+   * Only for the locks of non-zero priority
+   */
+  priority?: number;
+  /**
+   * Missing from the entries enqueued by the previous versions
+   */
+  owner?: LockOwner;
+  /**
+   * Only for the locks having a "maxHoldDuration"
+   */
+  maxHoldDuration?: number;
+  /**
+   * Set once the lock having a "maxHoldDuration" has been granted, it is dropped from the queue afterwards
+   */
+  expiresAt?: Date;
+};
+
 type Document = {
   name: LockName;
-  queue: {
-    id: LockId;
-    type: LockType;
-    at: Date;
-  }[];
+  queue: QueueEntry[];
   at: Date;
+  /**
+   * The greatest "fencingToken" recorded along with a grant, so no lower one is recorded afterwards
+   */
+  fencingToken?: number;
+};
+
+function isWriting({ type, upgrading }: QueueEntry): boolean {
+  return type === LockType.Writer || upgrading === true;
+}
+
+/**
+ * Resolves once the lock's queue may have changed, or once the first of its given entries expires
+ */
+type Subscription = {
+  wait(document?: Document | null | undefined): Promise<true>;
+  unsubscribe(): void;
+};
+
+type FencingTokenDocument = {
+  name: LockName;
+  fencingToken: number;
+};
+
+type RunDocument = {
+  job: string;
+  lastRunAt: Date;
 };
 
 export type MongoDBAdapterOptions = Except<
@@ -51,6 +124,27 @@ export type MongoDBAdapterOptions = Except<
    */
   collectionName?: string;
 
+  /**
+   * Name of the collection where the "fencingToken"s are stored, it has to be kept out of the TTL
+   *
+   * Default: <collectionName>_fencing_tokens
+   */
+  fencingTokenCollectionName?: string;
+
+  /**
+   * Name of the collection where the last runs of the scheduled jobs are stored, it has to be kept out of the TTL
+   *
+   * Default: <collectionName>_runs
+   */
+  runCollectionName?: string;
+
+  /**
+   * Optional, watches the collection with a change stream so the waiting locks are evaluated only when their queue changes or one of its entries expires, instead of according to the "waitStrategy", falls back on polling if the change streams are not supported (standalone server)
+   *
+   * Default: false
+   */
+  changeStream?: boolean;
+
   /**
    * MongoDB's semantic version, saves a query if known (supports incomplete version like "3" or "3.2")
    */
@@ -60,19 +154,39 @@ export type MongoDBAdapterOptions = Except<
 export class MongoDBAdapter implements AdapterInterface {
   #client: MongoClient;
   #collectionName: string;
+  #fencingTokenCollectionName: string;
+  #runCollectionName: string;
+  #changeStream: boolean;
+  #changeListeners = new Map<LockName, Set<() => void>>();
+
+  public readonly fairnessPolicies = Object.values(FairnessPolicy);
+  public readonly prioritized = true;
+  public readonly expiring = true;
 
   public constructor(
     /**
      * @see: https://docs.mongodb.com/manual/reference/connection-string/
      */
     url: string,
-    { collectionName, serverVersion, ...options }: MongoDBAdapterOptions = {},
+    {
+      collectionName,
+      fencingTokenCollectionName,
+      runCollectionName,
+      changeStream,
+      serverVersion,
+      ...options
+    }: MongoDBAdapterOptions = {},
   ) {
     this.#client = new MongoClient(url, {
       ...options,
       readPreference: ReadPreference.PRIMARY,
     });
     this.#collectionName = collectionName || 'locks';
+    this.#fencingTokenCollectionName =
+      fencingTokenCollectionName || `${this.#collectionName}_fencing_tokens`;
+    this.#runCollectionName =
+      runCollectionName || `${this.#collectionName}_runs`;
+    this.#changeStream = changeStream === true;
   }
 
   @Memoize()
@@ -89,6 +203,166 @@ export class MongoDBAdapter implements AdapterInterface {
     return db.collection(this.#collectionName);
   }
 
+  @Memoize()
+  protected async getFencingTokenCollection(): Promise<
+    Collection<FencingTokenDocument>
+  > {
+    const db = await this.getDb();
+
+    return db.collection(this.#fencingTokenCollectionName);
+  }
+
+  @Memoize()
+  protected async getRunCollection(): Promise<Collection<RunDocument>> {
+    const db = await this.getDb();
+
+    return db.collection(this.#runCollectionName);
+  }
+
+  protected notifyChange(change: ChangeStreamDocument<Pick<Document, 'name'>>) {
+    const name = change.fullDocument?.name;
+
+    // Without its document, we do not know which queue has changed
+    (name !== undefined
+      ? [this.#changeListeners.get(name) || []]
+      : [...this.#changeListeners.values()]
+    ).forEach((listeners) => listeners.forEach((listener) => listener()));
+  }
+
+  /**
+   * Returns the change stream, once started, or "undefined" if not supported
+   */
+  @Memoize()
+  protected async watch(): Promise<
+    ChangeStream<Pick<Document, 'name'>> | undefined
+  > {
+    if (!this.#changeStream) {
+      return undefined;
+    }
+
+    let changeStream: ChangeStream<Pick<Document, 'name'>>;
+
+    try {
+      // The change streams are only available on replica sets and sharded clusters
+      const db = await this.getDb();
+      const { setName, msg } = await db.admin().command({ isMaster: 1 });
+      if (!setName && msg !== 'isdbgrid') {
+        return undefined;
+      }
+
+      const collection = await this.getCollection();
+      changeStream = collection.watch<Pick<Document, 'name'>>(
+        [{ $project: { operationType: 1, 'fullDocument.name': 1 } }],
+        { fullDocument: 'updateLookup' },
+      );
+
+      // The change stream is started, no change will be missed from now on
+      const firstChange = await changeStream.tryNext();
+      if (firstChange) {
+        this.notifyChange(
+          firstChange as ChangeStreamDocument<Pick<Document, 'name'>>,
+        );
+      }
+    } catch (error) {
+      // The waiting locks fall back on polling
+      return undefined;
+    }
+
+    (async () => {
+      try {
+        while (!changeStream.closed) {
+          this.notifyChange(await changeStream.next());
+        }
+      } catch (error) {
+        // Do nothing, the waiting locks fall back on polling
+      } finally {
+        await changeStream.close();
+
+        this.#changeListeners.forEach((listeners) =>
+          listeners.forEach((listener) => listener()),
+        );
+      }
+    })();
+
+    return changeStream;
+  }
+
+  /**
+   * Either waits for a change of the lock's queue, or according to the "waitStrategy" without any change stream
+   */
+  protected async subscribe(lock: Lock): Promise<Subscription> {
+    const changeStream = await this.watch();
+
+    let changed: boolean = false;
+    let onChange: (() => void) | undefined;
+
+    const listener = () => {
+      changed = true;
+      onChange?.();
+    };
+
+    let listeners = this.#changeListeners.get(lock.name);
+    if (!listeners) {
+      listeners = new Set();
+      this.#changeListeners.set(lock.name, listeners);
+    }
+
+    listeners.add(listener);
+
+    return {
+      wait: async (document) => {
+        if (!changeStream || changeStream.closed) {
+          return lock.wait();
+        }
+
+        // The expired entries are dropped by the waiting locks themselves, no change is notified when they expire
+        const expiresAt = Math.min(
+          ...(document?.queue ?? []).flatMap(({ id, expiresAt }) =>
+            id !== lock.id && expiresAt ? [expiresAt.getTime()] : [],
+          ),
+        );
+
+        if (!changed && !lock.signal.aborted) {
+          await new Promise<void>((resolve) => {
+            let timeout: NodeJS.Timeout | undefined;
+
+            const onWake = () => {
+              if (timeout) {
+                clearTimeout(timeout);
+              }
+
+              lock.signal.removeEventListener('abort', onWake);
+              onChange = undefined;
+              resolve();
+            };
+
+            if (Number.isFinite(expiresAt)) {
+              timeout = setTimeout(
+                onWake,
+                Math.min(Math.max(expiresAt - Date.now(), 0), 2 ** 31 - 1),
+              );
+            }
+
+            onChange = onWake;
+
+            lock.signal.addEventListener('abort', onWake, { once: true });
+          });
+        }
+
+        changed = false;
+        onChange = undefined;
+
+        return true;
+      },
+      unsubscribe: () => {
+        listeners!.delete(listener);
+        if (!listeners!.size) {
+          this.#changeListeners.delete(lock.name);
+        }
+      },
+    };
+  }
+
   /**
    * Delete the locks not refreshed soon enought
    */
@@ -111,7 +385,13 @@ export class MongoDBAdapter implements AdapterInterface {
   protected async gcRefresh({
     lockSet,
     at,
-  }: AdapterGarbageCollectorParams): Promise<number> {
+  }: AdapterGarbageCollectorParams): Promise<
+    Pick<GarbageCycle, 'refreshedCount' | 'missingIds'>
+  > {
+    if (lockSet.size === 0) {
+      return { refreshedCount: 0, missingIds: [] };
+    }
+
     const collection = await this.getCollection();
 
     const result = await collection.bulkWrite(
@@ -132,13 +412,22 @@ export class MongoDBAdapter implements AdapterInterface {
       { ordered: false },
     );
 
-    return result.modifiedCount || 0;
+    // The "modifiedCount" does not tell which locks are missing
+    const ids = lockSet.getIds();
+    const foundIds = new Set<LockId>(
+      await collection.distinct('queue.id', { 'queue.id': { $in: ids } }),
+    );
+
+    return {
+      refreshedCount: result.modifiedCount || 0,
+      missingIds: ids.filter((id) => !foundIds.has(id)),
+    };
   }
 
   public async gc(
     params: AdapterGarbageCollectorParams,
   ): Promise<GarbageCycle> {
-    const [collectedCount, refreshedCount] = await Promise.all([
+    const [collectedCount, { refreshedCount, missingIds }] = await Promise.all([
       this.gcCollect(params),
       this.gcRefresh(params),
     ]);
@@ -146,6 +435,7 @@ export class MongoDBAdapter implements AdapterInterface {
     return {
       collectedCount,
       refreshedCount,
+      missingIds,
     };
   }
 
@@ -178,15 +468,35 @@ export class MongoDBAdapter implements AdapterInterface {
 
     const db = await this.getDb();
 
-    try {
-      await db.createCollection(this.#collectionName);
-    } catch (error) {
-      if (error instanceof MongoError && error.code === 48) {
-        // Do nothing, the collection already axists
-      } else {
-        throw error;
-      }
-    }
+    await Promise.all(
+      [
+        this.#collectionName,
+        this.#fencingTokenCollectionName,
+        this.#runCollectionName,
+      ].map(async (collectionName) => {
+        try {
+          await db.createCollection(collectionName);
+        } catch (error) {
+          if (error instanceof MongoError && error.code === 48) {
+            // Do nothing, the collection already axists
+          } else {
+            throw error;
+          }
+        }
+      }),
+    );
+
+    const fencingTokenCollection = await this.getFencingTokenCollection();
+    await fencingTokenCollection.createIndex(
+      { name: 1 },
+      { name: 'idx_name', unique: true },
+    );
+
+    const runCollection = await this.getRunCollection();
+    await runCollection.createIndex(
+      { job: 1 },
+      { name: 'idx_job', unique: true },
+    );
 
     const collection = await this.getCollection();
     const currentIndices: {
@@ -218,25 +528,478 @@ export class MongoDBAdapter implements AdapterInterface {
     ]);
   }
 
+  protected toAdapterQueue({ name, queue }: Document): AdapterQueue {
+    // The entries enqueued by the previous versions are not flagged as "held"
+    const holders = getHolders(queue);
+
+    return {
+      name,
+      entries: queue.map((entry, index) => ({
+        id: entry.id,
+        type: entry.type,
+        holder: holders[index],
+        enqueuedAt: entry.enqueuedAt || entry.at,
+        refreshedAt: entry.at,
+        ...(entry.owner && { owner: entry.owner }),
+      })),
+    };
+  }
+
+  public async inspect(name: LockName): Promise<AdapterQueue> {
+    const collection = await this.getCollection();
+
+    const document = await collection.findOne({ name });
+
+    return document ? this.toAdapterQueue(document) : { name, entries: [] };
+  }
+
+  public async list(): Promise<AdapterQueue[]> {
+    const collection = await this.getCollection();
+
+    const documents = await collection
+      .find({ 'queue.0': { $exists: true } })
+      .sort({ name: 1 })
+      .toArray();
+
+    return documents.map((document) => this.toAdapterQueue(document));
+  }
+
+  public async forceRelease(name: LockName, id: LockId): Promise<boolean> {
+    const collection = await this.getCollection();
+
+    const { modifiedCount } = await collection.updateOne(
+      { name, 'queue.id': id },
+      { $pull: { queue: { id } } },
+    );
+
+    return modifiedCount > 0;
+  }
+
+  public async forget(name: LockName): Promise<void> {
+    const collection = await this.getCollection();
+
+    const { deletedCount } = await collection.deleteOne({
+      name,
+      'queue.0': { $exists: false },
+    });
+
+    // Nothing is forgotten while the name is locked, its document may also have been dropped by the TTL index already
+    if (
+      deletedCount === 0 &&
+      (await collection.countDocuments({ name }, { limit: 1 })) > 0
+    ) {
+      return;
+    }
+
+    const fencingTokenCollection = await this.getFencingTokenCollection();
+    await fencingTokenCollection.deleteOne({ name });
+  }
+
+  public async getLastRunAt(job: string): Promise<Date | undefined> {
+    const collection = await this.getRunCollection();
+    const document = await collection.findOne({ job });
+
+    return document?.lastRunAt;
+  }
+
+  public async setLastRunAt(
+    job: string,
+    at: Date,
+    tries: number = 3,
+  ): Promise<void> {
+    const collection = await this.getRunCollection();
+
+    try {
+      await collection.updateOne(
+        { job },
+        { $max: { lastRunAt: at } },
+        { upsert: true },
+      );
+    } catch (error) {
+      // We try again in case of "duplicate key" error because of the unique index on "job"
+      if (error instanceof MongoError && error.code === 11000 && tries > 1) {
+        return this.setLastRunAt(job, at, tries - 1);
+      } else {
+        throw error;
+      }
+    }
+  }
+
   public async releaseAll() {
     const collection = await this.getCollection();
     await collection.deleteMany({});
   }
 
+  /**
+   * Closes the client, and the change stream along with it
+   */
+  public async close() {
+    await this.#client.close();
+  }
+
   protected async enqueueLock(
     lock: Lock,
-    tries: number = 3,
+    tries: number = 10,
   ): Promise<Document> {
     const collection = await this.getCollection();
 
+    const entry: QueueEntry = {
+      id: lock.id,
+      type: lock.type,
+      enqueuedAt: lock.createdAt,
+      at: lock.createdAt,
+      ...(lock.type === LockType.Semaphore && { permits: lock.permits }),
+      ...(lock.priority !== 0 && { priority: lock.priority }),
+      owner: lock.owner,
+      ...(lock.maxHoldDuration && { maxHoldDuration: lock.maxHoldDuration }),
+    };
+
+    // As no entry has a lower priority, even aged, the lock is placed at the end of the queue: it is pushed without reading the queue first
+    if (lock.priority <= 0) {
+      try {
+        const { value } = await collection.findOneAndUpdate(
+          {
+            name: lock.name,
+            queue: {
+              $not: { $elemMatch: { priority: { $lt: lock.priority } } },
+            },
+          },
+          {
+            $setOnInsert: { name: lock.name },
+            $max: { at: lock.createdAt },
+            $push: { queue: entry },
+          },
+          {
+            upsert: true,
+            returnDocument: 'after',
+          },
+        );
+
+        if (value) {
+          return value;
+        }
+      } catch (error) {
+        // A "duplicate key" error, because of the unique index on "name", means the queue exists but contains an entry of lower priority
+        if (!(error instanceof MongoError && error.code === 11000)) {
+          throw new LockError(
+            lock,
+            `The lock "${lock}" has not been enqueued: ${error.message}`,
+          );
+        }
+      }
+    }
+
+    for (let attempt = 0; attempt < tries; attempt++) {
+      try {
+        const document = await collection.findOne({ name: lock.name });
+
+        const { value } = await collection.findOneAndUpdate(
+          // The queue is updated only if it has not changed meanwhile, otherwise we try again
+          document
+            ? { name: lock.name, queue: document.queue }
+            : { name: lock.name },
+          {
+            $setOnInsert: { name: lock.name },
+            $max: { at: lock.createdAt },
+            $push: {
+              queue: {
+                $each: [entry],
+                // The lock is placed ahead of the waiting locks of lower priority
+                $position: document
+                  ? getQueuePosition(
+                      document.queue.map((entry) => ({
+                        ...entry,
+                        enqueuedAt: entry.enqueuedAt || entry.at,
+                      })),
+                      lock.priority,
+                      lock.priorityAging,
+                    )
+                  : 0,
+              },
+            },
+          },
+          {
+            upsert: !document,
+            returnDocument: 'after',
+          },
+        );
+
+        if (value) {
+          return value;
+        }
+      } catch (error) {
+        // We try again in case of "duplicate key" error because of the unique index on "name"
+        if (!(error instanceof MongoError && error.code === 11000)) {
+          throw new LockError(
+            lock,
+            `The lock "${lock}" has not been enqueued: ${error.message}`,
+          );
+        }
+      }
+    }
+
+    throw new LockError(
+      lock,
+      `The lock "${lock}" has not been enqueued: its queue kept changing`,
+    );
+  }
+
+  protected async dequeueLock(lock: Lock, ifExists: boolean): Promise<boolean> {
+    const collection = await this.getCollection();
+
+    const { modifiedCount } = await collection.updateOne(
+      { name: lock.name },
+      { $pull: { queue: { id: lock.id } } },
+    );
+
+    if (modifiedCount === 0 && !ifExists) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" was not in the queue anymore`,
+      );
+    }
+
+    return modifiedCount === 1;
+  }
+
+  /**
+   * Reserves the given number of consecutive "fencingToken"s, returns the first one: they are reserved before being recorded along with the grants, as they are stored out of the TTL, so the next holders are handed out greater ones
+   */
+  protected async generateFencingTokens(
+    lock: Lock,
+    count: number = 1,
+    tries: number = 3,
+  ): Promise<number> {
+    const collection = await this.getFencingTokenCollection();
+
     try {
       const { value } = await collection.findOneAndUpdate(
         { name: lock.name },
+        { $inc: { fencingToken: count } },
+        { upsert: true, returnDocument: 'after' },
+      );
+
+      if (!value) {
+        throw new LockError(
+          lock,
+          `The lock "${lock}" has not been handed out a fencing token`,
+        );
+      }
+
+      return value.fencingToken - count + 1;
+    } catch (error) {
+      // We try again in case of "duplicate key" error because of the unique index on "name"
+      if (error instanceof MongoError && error.code === 11000 && tries > 1) {
+        return this.generateFencingTokens(lock, count, tries - 1);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  protected async isLockAcquired(
+    lock: Lock,
+    document: Document | null | undefined,
+  ): Promise<boolean> {
+    const collection = await this.getCollection();
+
+    while (true) {
+      if (!document) {
+        throw new LockError(
+          lock,
+          `The lock "${lock}" is not in the queue anymore`,
+        );
+      }
+
+      // The expired locks are dropped, even if their owner has not released them
+      const at = new Date();
+      if (
+        document.queue.some(
+          ({ id, expiresAt }) => id !== lock.id && expiresAt && expiresAt <= at,
+        )
+      ) {
+        await collection.updateOne(
+          { name: lock.name, queue: document.queue },
+          {
+            $pull: {
+              queue: { id: { $ne: lock.id }, expiresAt: { $lte: at } },
+            },
+          },
+        );
+
+        document = await collection.findOne({ 'queue.id': lock.id });
+        continue;
+      }
+
+      const queue = document.queue;
+      const holders = getHolders(queue, lock.fairness);
+
+      // The locks granted according to the lock's policy are recorded, so they acquire it on their next try
+      const grantedIndexes = holders.flatMap((holder, index) =>
+        holder && !queue[index].held ? [index] : [],
+      );
+
+      // The "fencingToken"s are recorded along with the grants, so a lock collected meanwhile is not granted at all, they are only wasted
+      const fencingTokens = new Map<number, number>();
+
+      if (grantedIndexes.length) {
+        const fencingToken = await this.generateFencingTokens(
+          lock,
+          grantedIndexes.length,
+        );
+
+        grantedIndexes.forEach((index, rank) =>
+          fencingTokens.set(index, fencingToken + rank),
+        );
+
+        // The queue is updated only if it has not changed meanwhile, nor a greater "fencingToken" been recorded, otherwise we try again
+        const { modifiedCount } = await collection.updateOne(
+          {
+            name: lock.name,
+            queue,
+            fencingToken: { $not: { $gte: fencingToken } },
+          },
+          {
+            $max: {
+              fencingToken: fencingToken + grantedIndexes.length - 1,
+            },
+            $set: Object.fromEntries(
+              grantedIndexes.flatMap((index) => {
+                const { maxHoldDuration } = queue[index];
+
+                return [
+                  [`queue.${index}.held`, true],
+                  [`queue.${index}.fencingToken`, fencingTokens.get(index)!],
+                  ...(maxHoldDuration
+                    ? [
+                        [
+                          `queue.${index}.expiresAt`,
+                          new Date(at.getTime() + maxHoldDuration),
+                        ],
+                      ]
+                    : []),
+                ];
+              }),
+            ),
+          },
+        );
+
+        if (modifiedCount === 0) {
+          document = await collection.findOne({ 'queue.id': lock.id });
+          continue;
+        }
+      }
+
+      const index = queue.findIndex(({ id }) => id === lock.id);
+      const acquired = holders[index];
+
+      if (acquired) {
+        lock.fencingToken =
+          fencingTokens.get(index) ??
+          queue[index].fencingToken ??
+          // The entries granted by the previous versions have not been recorded any "fencingToken"
+          (await this.generateFencingTokens(lock));
+        lock.status = LockStatus.Acquired;
+      }
+
+      return acquired;
+    }
+  }
+
+  public async lock(lock: Lock) {
+    const collection = await this.getCollection();
+
+    // Subscribed before the enqueuing, so no change of the queue is missed
+    const subscription = await this.subscribe(lock);
+
+    try {
+      // Push the lock into the dedicated document
+      let document: Document | null | undefined = await this.enqueueLock(lock);
+
+      if (!document.queue.every((entry) => areLocksCompatible(entry, lock))) {
+        await this.dequeueLock(lock, true);
+
+        throw new LockError(
+          lock,
+          `The lock "${lock}" cannot share its name with the locks of another type or number of permits`,
+        );
+      }
+
+      // Either we acquired the lock immediately ...
+      if (!(await this.isLockAcquired(lock, document))) {
+        //... or we start pulling on every change of the queue, or according to the "waitStrategy"
+        try {
+          while (
+            (await subscription.wait(document)) &&
+            lock.isAcquiring() &&
+            !(await this.isLockAcquired(
+              lock,
+              (document = await collection.findOne({ 'queue.id': lock.id })),
+            ))
+          ) {
+            // Nothing to do here
+          }
+        } finally {
+          if (!lock.isAcquired()) {
+            await this.dequeueLock(lock, true);
+          }
+        }
+      }
+    } finally {
+      subscription.unsubscribe();
+    }
+  }
+
+  public async lockSemaphore(lock: Lock) {
+    return this.lock(lock);
+  }
+
+  /**
+   * A single "findOneAndUpdate" enqueues the lock only if it is acquired immediately
+   */
+  public async tryLock(lock: Lock) {
+    const collection = await this.getCollection();
+
+    // The expired locks are dropped, even if their owner has not released them
+    const at = new Date();
+    await collection.updateOne(
+      { name: lock.name, 'queue.expiresAt': { $lte: at } },
+      { $pull: { queue: { expiresAt: { $lte: at } } } },
+    );
+
+    // The "fencingToken" is recorded along with the grant, it is only wasted if the lock is not acquired
+    const fencingToken = await this.generateFencingTokens(lock);
+
+    let document: Document | undefined;
+
+    try {
+      const { value } = await collection.findOneAndUpdate(
+        // The lock is acquired when it's compatible with all the locks of the queue, so a "write" lock when the queue is empty, and no greater "fencingToken" has been recorded meanwhile
+        {
+          name: lock.name,
+          'queue.type': { $nin: getIncompatibleTypes(lock.type) },
+          'queue.upgrading': { $ne: true },
+          fencingToken: { $not: { $gte: fencingToken } },
+        },
         {
           $setOnInsert: { name: lock.name },
-          $max: { at: lock.createdAt },
+          $max: { at: lock.createdAt, fencingToken },
           $push: {
-            queue: { id: lock.id, type: lock.type, at: lock.createdAt },
+            queue: {
+              id: lock.id,
+              type: lock.type,
+              enqueuedAt: lock.createdAt,
+              at: lock.createdAt,
+              held: true,
+              fencingToken,
+              owner: lock.owner,
+              ...(lock.maxHoldDuration && {
+                maxHoldDuration: lock.maxHoldDuration,
+                expiresAt: new Date(
+                  lock.createdAt.getTime() + lock.maxHoldDuration,
+                ),
+              }),
+            },
           },
         },
         {
@@ -245,46 +1008,83 @@ export class MongoDBAdapter implements AdapterInterface {
         },
       );
 
-      if (!value) {
-        throw new LockError(lock, `The lock "${lock}" has not been enqueued`);
-      }
-
-      return value;
+      document = value;
     } catch (error) {
-      // We try again in case of "duplicate key" error because of the unique index on "name"
-      if (error instanceof MongoError && error.code === 11000 && tries > 1) {
-        return this.enqueueLock(lock, tries - 1);
-      } else {
+      // A "duplicate key" error, because of the unique index on "name", means that the document exists but does not match
+      if (!(error instanceof MongoError && error.code === 11000)) {
         throw new LockError(
           lock,
           `The lock "${lock}" has not been enqueued: ${error.message}`,
         );
       }
     }
+
+    if (document) {
+      lock.fencingToken = fencingToken;
+      lock.status = LockStatus.Acquired;
+    }
   }
 
-  protected async dequeueLock(lock: Lock, ifExists: boolean): Promise<boolean> {
+  public async release(lock: Lock) {
+    await this.dequeueLock(lock, false);
+
+    lock.status = LockStatus.Released;
+  }
+
+  /**
+   * The lock is moved right after the "reader" locks currently acquired and flagged as "upgrading"
+   */
+  protected async markLockAsUpgrading(lock: Lock): Promise<Document> {
     const collection = await this.getCollection();
 
-    const { modifiedCount } = await collection.updateOne(
-      { name: lock.name },
-      { $pull: { queue: { id: lock.id } } },
-    );
+    // The upgrade may be given up, or the lock lost, while the queue keeps changing
+    while (lock.isUpgrading() && !lock.signal.aborted) {
+      const document = await collection.findOne({ 'queue.id': lock.id });
+      if (!document) {
+        throw new LockError(
+          lock,
+          `The lock "${lock}" is not in the queue anymore`,
+        );
+      }
 
-    if (modifiedCount === 0 && !ifExists) {
-      throw new LockError(
-        lock,
-        `The lock "${lock}" was not in the queue anymore`,
+      if (
+        document.queue.some(({ id, upgrading }) => id !== lock.id && upgrading)
+      ) {
+        throw new DeadlockLockError(
+          lock,
+          `The lock "${lock}" cannot be upgraded as another lock "${lock.name}" is already being upgraded`,
+        );
+      }
+
+      const entry = document.queue.find(({ id }) => id === lock.id)!;
+      const queue = document.queue.filter(({ id }) => id !== lock.id);
+      const index = queue.findIndex(isWriting);
+      queue.splice(index === -1 ? queue.length : index, 0, {
+        ...entry,
+        upgrading: true,
+      });
+
+      // The queue is replaced only if it has not changed meanwhile, otherwise we try again
+      const { modifiedCount } = await collection.updateOne(
+        { name: lock.name, queue: document.queue },
+        { $set: { queue } },
       );
+
+      if (modifiedCount === 1) {
+        return { ...document, queue };
+      }
     }
 
-    return modifiedCount === 1;
+    throw new LockError(
+      lock,
+      `The lock "${lock}" has not been flagged as "upgrading" as its upgrade has been given up`,
+    );
   }
 
-  protected isLockAcquired(
+  protected async isLockUpgraded(
     lock: Lock,
     document: Document | null | undefined,
-  ): boolean {
+  ): Promise<boolean> {
     if (!document) {
       throw new LockError(
         lock,
@@ -292,53 +1092,89 @@ export class MongoDBAdapter implements AdapterInterface {
       );
     }
 
-    const acquired =
-      lock.type === LockType.Writer
-        ? // A "write" lock is acquired when it's the first in the queue
-          document.queue[0]?.id === lock.id
-        : // A "read" lock is acquired when it's not preceded by a "write" lock in the queue
-          document.queue.find(
-            ({ id, type }) => id === lock.id || type === LockType.Writer,
-          )?.id === lock.id;
+    // An upgraded lock is acquired when it's the first in the queue and no other lock holds
+    const upgraded =
+      document.queue[0]?.id === lock.id &&
+      !document.queue.slice(1).some(({ held }) => held);
 
-    if (acquired) {
-      lock.status = LockStatus.Acquired;
+    // The upgrade may have been given up meanwhile, as its "acquireTimeout" has elapsed
+    if (!upgraded || !lock.isUpgrading()) {
+      return false;
+    }
+
+    const collection = await this.getCollection();
+
+    await collection.updateOne(
+      { 'queue.id': lock.id },
+      {
+        $set: { 'queue.$.type': LockType.Writer },
+        $unset: { 'queue.$.upgrading': '' },
+      },
+    );
+
+    if (!lock.isUpgrading()) {
+      // It has been given up while its entry was switched, which goes back to a "reader" one
+      await collection.updateOne(
+        { 'queue.id': lock.id },
+        { $set: { 'queue.$.type': LockType.Reader } },
+      );
+
+      return false;
     }
 
-    return acquired;
+    lock.type = LockType.Writer;
+    lock.status = LockStatus.Acquired;
+
+    return true;
   }
 
-  public async lock(lock: Lock) {
+  public async upgrade(lock: Lock) {
     const collection = await this.getCollection();
 
-    // Push the lock into the dedicated document
-    const document = await this.enqueueLock(lock);
+    // Flag the lock as "upgrading" into the dedicated document
+    const document = await this.markLockAsUpgrading(lock);
 
-    // Either we acquired the lock immediately ...
-    if (!this.isLockAcquired(lock, document)) {
-      //... or we start pulling every "pullInterval"ms
-      try {
+    try {
+      // Either we upgraded the lock immediately ...
+      if (!(await this.isLockUpgraded(lock, document))) {
+        //... or we start pulling according to the "waitStrategy"
         while (
-          (await sleep(lock.pullInterval)) &&
-          lock.isAcquiring() &&
-          !this.isLockAcquired(
+          (await lock.wait()) &&
+          lock.isUpgrading() &&
+          !(await this.isLockUpgraded(
             lock,
             await collection.findOne({ 'queue.id': lock.id }),
-          )
+          ))
         ) {
           // Nothing to do here
         }
-      } finally {
-        if (!lock.isAcquired()) {
-          await this.dequeueLock(lock, true);
-        }
+      }
+    } finally {
+      // The lock stays an acquired "reader" lock, unless it is upgraded again meanwhile
+      if (lock.type !== LockType.Writer && !lock.isUpgrading()) {
+        await collection.updateOne(
+          { 'queue.id': lock.id },
+          { $unset: { 'queue.$.upgrading': '' } },
+        );
       }
     }
   }
 
-  public async release(lock: Lock) {
-    await this.dequeueLock(lock, false);
+  public async downgrade(lock: Lock) {
+    const collection = await this.getCollection();
 
-    lock.status = LockStatus.Released;
+    const { modifiedCount } = await collection.updateOne(
+      { 'queue.id': lock.id },
+      { $set: { 'queue.$.type': LockType.Reader } },
+    );
+
+    if (modifiedCount === 0) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" is not in the queue anymore`,
+      );
+    }
+
+    lock.type = LockType.Reader;
   }
 }
@@ -0,0 +1,10 @@
+import { testAdapter } from '@prismamedia/ts-distributed-lock';
+import { newDb } from 'pg-mem';
+import { PostgreSQLAdapter } from '../postgresql-adapter';
+
+describe('PostgreSQLAdapter', () => {
+  // An in-process PostgreSQL
+  const { Pool } = newDb().adapters.createPg();
+
+  testAdapter(() => new PostgreSQLAdapter(new Pool()));
+});
@@ -0,0 +1,5 @@
+import { PostgreSQLAdapter } from './postgresql-adapter';
+
+export * from './postgresql-adapter';
+
+export default PostgreSQLAdapter;
@@ -0,0 +1,322 @@
+import {
+  AdapterGarbageCollectorParams,
+  AdapterInterface,
+  AdapterQueue,
+  GarbageCycle,
+  getHolders,
+  Lock,
+  LockError,
+  LockId,
+  LockName,
+  LockOwner,
+  LockStatus,
+  LockType,
+} from '@prismamedia/ts-distributed-lock';
+import { Pool, PoolConfig } from 'pg';
+
+type Row = {
+  id: LockId;
+  type: LockType;
+};
+
+export type PostgreSQLAdapterOptions = Omit<PoolConfig, 'connectionString'> & {
+  /**
+   * Name of the table where the locks are stored, the table "<tableName>_names" is also used for the names and their "fencingToken"s
+   *
+   * Default: locks
+   */
+  tableName?: string;
+};
+
+export class PostgreSQLAdapter implements AdapterInterface {
+  #pool: Pool;
+  #ownsPool: boolean;
+  #tableName: string;
+  #namesTableName: string;
+
+  public constructor(
+    /**
+     * Either an URL or an already instantiated pool
+     *
+     * @see: https://www.postgresql.org/docs/current/libpq-connect.html#LIBPQ-CONNSTRING
+     */
+    urlOrPool: string | Pool,
+    { tableName, ...options }: PostgreSQLAdapterOptions = {},
+  ) {
+    this.#pool =
+      typeof urlOrPool === 'string'
+        ? new Pool({ ...options, connectionString: urlOrPool })
+        : urlOrPool;
+    this.#ownsPool = typeof urlOrPool === 'string';
+    this.#tableName = tableName || 'locks';
+    this.#namesTableName = `${this.#tableName}_names`;
+  }
+
+  /**
+   * Delete the locks not refreshed soon enought
+   */
+  protected async gcCollect({
+    staleAt,
+  }: AdapterGarbageCollectorParams): Promise<number> {
+    const { rowCount } = await this.#pool.query(
+      `DELETE FROM "${this.#tableName}" WHERE "refreshed_at" < $1`,
+      [staleAt],
+    );
+
+    return rowCount || 0;
+  }
+
+  /**
+   * Refresh the registered locks
+   */
+  protected async gcRefresh({
+    lockSet,
+    at,
+  }: AdapterGarbageCollectorParams): Promise<
+    Pick<GarbageCycle, 'refreshedCount' | 'missingIds'>
+  > {
+    if (lockSet.size === 0) {
+      return { refreshedCount: 0, missingIds: [] };
+    }
+
+    const ids = lockSet.getIds();
+
+    const { rows } = await this.#pool.query<{ id: LockId }>(
+      `UPDATE "${this.#tableName}" SET "refreshed_at" = $1 WHERE "id" IN (${ids
+        .map((_id, index) => `$${index + 2}`)
+        .join(', ')}) RETURNING "id"`,
+      [at, ...ids],
+    );
+
+    const refreshedIds = new Set(rows.map(({ id }) => id));
+
+    return {
+      refreshedCount: refreshedIds.size,
+      missingIds: ids.filter((id) => !refreshedIds.has(id)),
+    };
+  }
+
+  public async gc(
+    params: AdapterGarbageCollectorParams,
+  ): Promise<GarbageCycle> {
+    const [collectedCount, { refreshedCount, missingIds }] = await Promise.all([
+      this.gcCollect(params),
+      this.gcRefresh(params),
+    ]);
+
+    return {
+      collectedCount,
+      refreshedCount,
+      missingIds,
+    };
+  }
+
+  public async setup() {
+    await this.#pool.query(
+      `CREATE TABLE IF NOT EXISTS "${this.#namesTableName}" (
+        "name" TEXT PRIMARY KEY,
+        "fencing_token" BIGINT NOT NULL DEFAULT 0
+      )`,
+    );
+
+    await this.#pool.query(
+      `CREATE TABLE IF NOT EXISTS "${this.#tableName}" (
+        "position" BIGSERIAL PRIMARY KEY,
+        "name" TEXT NOT NULL,
+        "id" TEXT NOT NULL UNIQUE,
+        "type" TEXT NOT NULL,
+        "enqueued_at" TIMESTAMPTZ NOT NULL,
+        "refreshed_at" TIMESTAMPTZ NOT NULL,
+        "owner" JSONB
+      )`,
+    );
+
+    // The tables created by the previous versions have no "owner"
+    await this.#pool.query(
+      `ALTER TABLE "${this.#tableName}" ADD COLUMN IF NOT EXISTS "owner" JSONB`,
+    );
+
+    await this.#pool.query(
+      `CREATE INDEX IF NOT EXISTS "${this.#tableName}_name_idx" ON "${
+        this.#tableName
+      }" ("name", "position")`,
+    );
+  }
+
+  public async releaseAll() {
+    await this.#pool.query(`DELETE FROM "${this.#tableName}"`);
+  }
+
+  /**
+   * Ends the pool, unless it has been given already instantiated
+   */
+  public async close() {
+    if (this.#ownsPool) {
+      await this.#pool.end();
+    }
+  }
+
+  public async inspect(name: LockName): Promise<AdapterQueue> {
+    const { rows } = await this.#pool.query<
+      Row & {
+        enqueued_at: Date;
+        refreshed_at: Date;
+        owner: LockOwner | null;
+      }
+    >(
+      `SELECT "id", "type", "enqueued_at", "refreshed_at", "owner" FROM "${
+        this.#tableName
+      }" WHERE "name" = $1 ORDER BY "position"`,
+      [name],
+    );
+
+    // As the holders are not recorded, the locks are granted in their order of arrival
+    const holders = getHolders(rows);
+
+    return {
+      name,
+      entries: rows.map(
+        ({ id, type, enqueued_at, refreshed_at, owner }, index) => ({
+          id,
+          type,
+          holder: holders[index],
+          enqueuedAt: enqueued_at,
+          refreshedAt: refreshed_at,
+          ...(owner && { owner }),
+        }),
+      ),
+    };
+  }
+
+  protected async getQueue(lock: Lock): Promise<Row[]> {
+    const { rows } = await this.#pool.query<Row>(
+      `SELECT "id", "type" FROM "${
+        this.#tableName
+      }" WHERE "name" = $1 ORDER BY "position"`,
+      [lock.name],
+    );
+
+    return rows;
+  }
+
+  protected async enqueueLock(lock: Lock): Promise<Row[]> {
+    try {
+      await this.#pool.query(
+        `INSERT INTO "${
+          this.#namesTableName
+        }" ("name") VALUES ($1) ON CONFLICT DO NOTHING`,
+        [lock.name],
+      );
+
+      // The row of the lock's name is locked until the insert is committed, so the positions follow the commits' order
+      const { rowCount } = await this.#pool.query(
+        `INSERT INTO "${
+          this.#tableName
+        }" ("name", "id", "type", "enqueued_at", "refreshed_at", "owner")
+          SELECT "name", $2::text, $3::text, $4::timestamptz, $4::timestamptz, $5::jsonb FROM "${
+            this.#namesTableName
+          }" WHERE "name" = $1 FOR UPDATE`,
+        [lock.name, lock.id, lock.type, lock.createdAt, lock.owner],
+      );
+
+      if (rowCount !== 1) {
+        throw new Error(`The name "${lock.name}" is missing`);
+      }
+    } catch (error) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" has not been enqueued: ${error.message}`,
+      );
+    }
+
+    return this.getQueue(lock);
+  }
+
+  protected async dequeueLock(lock: Lock, ifExists: boolean): Promise<boolean> {
+    const { rowCount } = await this.#pool.query(
+      `DELETE FROM "${this.#tableName}" WHERE "id" = $1`,
+      [lock.id],
+    );
+
+    if (rowCount === 0 && !ifExists) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" was not in the queue anymore`,
+      );
+    }
+
+    return rowCount === 1;
+  }
+
+  /**
+   * The "fencingToken" is handed out only if the lock is still in the queue, by the same statement, so it cannot be collected in between
+   */
+  protected async generateFencingToken(lock: Lock): Promise<number> {
+    const { rows } = await this.#pool.query<{ fencing_token: string }>(
+      `UPDATE "${
+        this.#namesTableName
+      }" SET "fencing_token" = "fencing_token" + 1 WHERE "name" IN (
+          SELECT "name" FROM "${this.#tableName}" WHERE "id" = $1
+        ) RETURNING "fencing_token"`,
+      [lock.id],
+    );
+
+    if (!rows.length) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" is not in the queue anymore`,
+      );
+    }
+
+    return Number(rows[0].fencing_token);
+  }
+
+  protected async isLockAcquired(lock: Lock, queue: Row[]): Promise<boolean> {
+    if (!queue.find(({ id }) => id === lock.id)) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" is not in the queue anymore`,
+      );
+    }
+
+    // As the holders are not recorded, the locks are granted in their order of arrival: the locks being only appended to the queue, a holder keeps holding as long as it is in the queue
+    const acquired =
+      getHolders(queue)[queue.findIndex(({ id }) => id === lock.id)];
+
+    if (acquired) {
+      lock.fencingToken = await this.generateFencingToken(lock);
+      lock.status = LockStatus.Acquired;
+    }
+
+    return acquired;
+  }
+
+  public async lock(lock: Lock) {
+    // Insert the lock into the queue
+    const queue = await this.enqueueLock(lock);
+
+    // Either we acquired the lock immediately ...
+    if (!(await this.isLockAcquired(lock, queue))) {
+      //... or we start pulling according to the "waitStrategy"
+      try {
+        while (
+          (await lock.wait()) &&
+          lock.isAcquiring() &&
+          !(await this.isLockAcquired(lock, await this.getQueue(lock)))
+        ) {
+          // Nothing to do here
+        }
+      } finally {
+        if (!lock.isAcquired()) {
+          await this.dequeueLock(lock, true);
+        }
+      }
+    }
+  }
+
+  public async release(lock: Lock) {
+    await this.dequeueLock(lock, false);
+
+    lock.status = LockStatus.Released;
+  }
+}
@@ -0,0 +1,6 @@
+const config = require('../../jest.config.base');
+
+module.exports = {
+  ...config,
+  rootDir: `${__dirname}/src`,
+};
@@ -0,0 +1,8 @@
+import { testAdapter } from '@prismamedia/ts-distributed-lock';
+import RedisMock from 'ioredis-mock';
+import { RedisAdapter } from '../redis-adapter';
+
+describe('RedisAdapter', () => {
+  // An in-process Redis, supporting the Lua scripts
+  testAdapter(() => new RedisAdapter(new RedisMock()));
+});
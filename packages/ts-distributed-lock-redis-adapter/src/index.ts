@@ -0,0 +1,5 @@
+import { RedisAdapter } from './redis-adapter';
+
+export * from './redis-adapter';
+
+export default RedisAdapter;
@@ -0,0 +1,487 @@
+import {
+  AdapterGarbageCollectorParams,
+  AdapterInterface,
+  AdapterQueue,
+  GarbageCycle,
+  getHolders,
+  getIncompatibleTypes,
+  Lock,
+  LockError,
+  LockName,
+  LockOwner,
+  LockStatus,
+  LockType,
+} from '@prismamedia/ts-distributed-lock';
+import Redis, { Redis as RedisClient, RedisOptions } from 'ioredis';
+
+type Client = RedisClient & {
+  lockerEnqueue(...args: (string | number)[]): Promise<number>;
+  lockerAcquire(...args: (string | number)[]): Promise<number>;
+  lockerDequeue(...args: (string | number)[]): Promise<number>;
+  lockerGcCollect(...args: (string | number)[]): Promise<number>;
+  lockerGcRefresh(...args: (string | number)[]): Promise<string[]>;
+  lockerReleaseAll(...args: (string | number)[]): Promise<null>;
+};
+
+/**
+ * The details of an entry of the queue, stored as JSON in the "entries" hash of its name
+ */
+type EntryDetails = {
+  enqueuedAt: number;
+  owner: LockOwner;
+};
+
+/**
+ * As the holders are not recorded, the locks are granted in their order of arrival: an entry, stored as "id:type", holds the lock once it is compatible with all the entries before it, it is then handed out a "fencingToken"
+ *
+ * Returns the "fencingToken", 0 if the entry waits, -1 if it is not in the queue anymore
+ */
+const acquireFunction = `
+local function acquire(queueKey, fencingTokenKey, entry, compatibleTypes)
+  for _, queuedEntry in ipairs(redis.call('LRANGE', queueKey, 0, -1)) do
+    if queuedEntry == entry then
+      return redis.call('INCR', fencingTokenKey)
+    elseif not compatibleTypes[string.match(queuedEntry, '^[^:]+:(.*)$')] then
+      return 0
+    end
+  end
+  return -1
+end
+`;
+
+/**
+ * KEYS: queue, ats, names, fencingToken, entries
+ * ARGV: name, entry, at, details, ...compatibleTypes
+ */
+const enqueueScript = `
+${acquireFunction}
+redis.call('RPUSH', KEYS[1], ARGV[2])
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[2] .. ':' .. ARGV[1])
+redis.call('SADD', KEYS[3], ARGV[1])
+redis.call('HSET', KEYS[5], ARGV[2], ARGV[4])
+local compatibleTypes = {}
+for i = 5, #ARGV do
+  compatibleTypes[ARGV[i]] = true
+end
+return acquire(KEYS[1], KEYS[4], ARGV[2], compatibleTypes)
+`;
+
+/**
+ * KEYS: queue, fencingToken
+ * ARGV: entry, ...compatibleTypes
+ */
+const acquireScript = `
+${acquireFunction}
+local compatibleTypes = {}
+for i = 2, #ARGV do
+  compatibleTypes[ARGV[i]] = true
+end
+return acquire(KEYS[1], KEYS[2], ARGV[1], compatibleTypes)
+`;
+
+/**
+ * KEYS: queue, ats, names, entries
+ * ARGV: name, entry
+ */
+const dequeueScript = `
+local removed = redis.call('LREM', KEYS[1], 0, ARGV[2])
+redis.call('ZREM', KEYS[2], ARGV[2] .. ':' .. ARGV[1])
+redis.call('HDEL', KEYS[4], ARGV[2])
+if redis.call('LLEN', KEYS[1]) == 0 then
+  redis.call('SREM', KEYS[3], ARGV[1])
+end
+return removed
+`;
+
+/**
+ * KEYS: ats, names
+ * ARGV: prefix, staleAt
+ */
+const gcCollectScript = `
+local collected = 0
+for _, member in ipairs(redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', '(' .. ARGV[2])) do
+  local entry, name = string.match(member, '^([^:]+:[^:]+):(.*)$')
+  local queue = ARGV[1] .. ':queue:' .. name
+  collected = collected + redis.call('LREM', queue, 0, entry)
+  redis.call('ZREM', KEYS[1], member)
+  redis.call('HDEL', ARGV[1] .. ':entries:' .. name, entry)
+  if redis.call('LLEN', queue) == 0 then
+    redis.call('SREM', KEYS[2], name)
+  end
+end
+return collected
+`;
+
+/**
+ * KEYS: ats
+ * ARGV: at, ...members
+ * Returns the missing members
+ */
+const gcRefreshScript = `
+local missing = {}
+for i = 2, #ARGV do
+  if redis.call('ZSCORE', KEYS[1], ARGV[i]) then
+    redis.call('ZADD', KEYS[1], ARGV[1], ARGV[i])
+  else
+    table.insert(missing, ARGV[i])
+  end
+end
+return missing
+`;
+
+/**
+ * KEYS: ats, names
+ * ARGV: prefix
+ */
+const releaseAllScript = `
+for _, name in ipairs(redis.call('SMEMBERS', KEYS[2])) do
+  redis.call('DEL', ARGV[1] .. ':queue:' .. name, ARGV[1] .. ':entries:' .. name)
+end
+redis.call('DEL', KEYS[1], KEYS[2])
+return false
+`;
+
+export type RedisAdapterOptions = Omit<RedisOptions, 'keyPrefix'> & {
+  /**
+   * Prefix of the keys where the locks are stored
+   *
+   * Default: locks
+   */
+  prefix?: string;
+};
+
+/**
+ * The keys are built inside the scripts, so this adapter does not support "Redis Cluster"
+ */
+export class RedisAdapter implements AdapterInterface {
+  #client: Client;
+  #ownsClient: boolean;
+  #prefix: string;
+
+  public constructor(
+    /**
+     * Either an URL or an already instantiated client
+     *
+     * @see: https://www.iana.org/assignments/uri-schemes/prov/redis
+     */
+    urlOrClient: string | RedisClient,
+    { prefix, ...options }: RedisAdapterOptions = {},
+  ) {
+    this.#client = (
+      typeof urlOrClient === 'string'
+        ? new Redis(urlOrClient, options)
+        : urlOrClient
+    ) as Client;
+    this.#ownsClient = typeof urlOrClient === 'string';
+    this.#prefix = prefix || 'locks';
+
+    this.#client.defineCommand('lockerEnqueue', {
+      numberOfKeys: 5,
+      lua: enqueueScript,
+    });
+    this.#client.defineCommand('lockerAcquire', {
+      numberOfKeys: 2,
+      lua: acquireScript,
+    });
+    this.#client.defineCommand('lockerDequeue', {
+      numberOfKeys: 4,
+      lua: dequeueScript,
+    });
+    this.#client.defineCommand('lockerGcCollect', {
+      numberOfKeys: 2,
+      lua: gcCollectScript,
+    });
+    this.#client.defineCommand('lockerGcRefresh', {
+      numberOfKeys: 1,
+      lua: gcRefreshScript,
+    });
+    this.#client.defineCommand('lockerReleaseAll', {
+      numberOfKeys: 2,
+      lua: releaseAllScript,
+    });
+  }
+
+  protected getQueueKey(name: LockName): string {
+    return `${this.#prefix}:queue:${name}`;
+  }
+
+  /**
+   * Not deleted by "releaseAll"
+   */
+  protected getFencingTokenKey(name: LockName): string {
+    return `${this.#prefix}:fencing-token:${name}`;
+  }
+
+  /**
+   * The details of the entries of the queue, as their owner
+   */
+  protected getEntriesKey(name: LockName): string {
+    return `${this.#prefix}:entries:${name}`;
+  }
+
+  protected getAtsKey(): string {
+    return `${this.#prefix}:ats`;
+  }
+
+  protected getNamesKey(): string {
+    return `${this.#prefix}:names`;
+  }
+
+  /**
+   * The entry of the queue, neither the lock's id nor its type contain any ":"
+   */
+  protected getEntry(lock: Lock): string {
+    return `${lock.id}:${lock.type}`;
+  }
+
+  /**
+   * The member of the "ats" sorted-set, so the garbage collector knows the queue to clean
+   */
+  protected getAtMember(lock: Lock): string {
+    return `${this.getEntry(lock)}:${lock.name}`;
+  }
+
+  /**
+   * The types of the entries the lock can hold along with
+   */
+  protected getCompatibleTypes(lock: Lock): LockType[] {
+    const incompatibleTypes = getIncompatibleTypes(lock.type);
+
+    return Object.values(LockType).filter(
+      (type) => !incompatibleTypes.includes(type),
+    );
+  }
+
+  /**
+   * Delete the locks not refreshed soon enought
+   */
+  protected async gcCollect({
+    staleAt,
+  }: AdapterGarbageCollectorParams): Promise<number> {
+    return this.#client.lockerGcCollect(
+      this.getAtsKey(),
+      this.getNamesKey(),
+      this.#prefix,
+      staleAt.getTime(),
+    );
+  }
+
+  /**
+   * Refresh the registered locks
+   */
+  protected async gcRefresh({
+    lockSet,
+    at,
+  }: AdapterGarbageCollectorParams): Promise<
+    Pick<GarbageCycle, 'refreshedCount' | 'missingIds'>
+  > {
+    if (lockSet.size === 0) {
+      return { refreshedCount: 0, missingIds: [] };
+    }
+
+    const locks = [...lockSet];
+    const missingMembers = new Set<string>(
+      await this.#client.lockerGcRefresh(
+        this.getAtsKey(),
+        at.getTime(),
+        ...locks.map((lock) => this.getAtMember(lock)),
+      ),
+    );
+
+    const missingIds = locks
+      .filter((lock) => missingMembers.has(this.getAtMember(lock)))
+      .map(({ id }) => id);
+
+    return {
+      refreshedCount: locks.length - missingIds.length,
+      missingIds,
+    };
+  }
+
+  public async gc(
+    params: AdapterGarbageCollectorParams,
+  ): Promise<GarbageCycle> {
+    const [collectedCount, { refreshedCount, missingIds }] = await Promise.all([
+      this.gcCollect(params),
+      this.gcRefresh(params),
+    ]);
+
+    return {
+      collectedCount,
+      refreshedCount,
+      missingIds,
+    };
+  }
+
+  public async setup() {
+    await this.#client.ping();
+  }
+
+  public async releaseAll() {
+    await this.#client.lockerReleaseAll(
+      this.getAtsKey(),
+      this.getNamesKey(),
+      this.#prefix,
+    );
+  }
+
+  /**
+   * Disconnects the client, unless it has been given already instantiated
+   */
+  public async close() {
+    if (this.#ownsClient) {
+      await this.#client.quit();
+    }
+  }
+
+  public async inspect(name: LockName): Promise<AdapterQueue> {
+    // The queue and the details of its entries, as of the same point in time
+    const [[, queue], [, details]] = (await this.#client
+      .multi()
+      .lrange(this.getQueueKey(name), 0, -1)
+      .hgetall(this.getEntriesKey(name))
+      .exec()) as [
+      [Error | null, string[]],
+      [Error | null, Record<string, string>],
+    ];
+
+    const refreshes = this.#client.pipeline();
+    queue.forEach((entry) =>
+      refreshes.zscore(this.getAtsKey(), `${entry}:${name}`),
+    );
+    const ats = queue.length ? await refreshes.exec() : [];
+
+    const entries = queue.map((entry, index) => {
+      const [id, type] = entry.split(':');
+      const { enqueuedAt, owner }: Partial<EntryDetails> = details[entry]
+        ? JSON.parse(details[entry])
+        : {};
+      const at = Number(ats[index]?.[1] ?? 0);
+
+      return {
+        id,
+        type: type as LockType,
+        // The entries enqueued by the previous versions have no details
+        enqueuedAt: new Date(enqueuedAt ?? at),
+        refreshedAt: new Date(at),
+        ...(owner && { owner }),
+      };
+    });
+
+    // As the holders are not recorded, the locks are granted in their order of arrival
+    const holders = getHolders(entries);
+
+    return {
+      name,
+      entries: entries.map((entry, index) => ({
+        ...entry,
+        holder: holders[index],
+      })),
+    };
+  }
+
+  /**
+   * Enqueues the lock and tries to acquire it at once, in a single script
+   */
+  protected async enqueueLock(lock: Lock): Promise<number> {
+    try {
+      return await this.#client.lockerEnqueue(
+        this.getQueueKey(lock.name),
+        this.getAtsKey(),
+        this.getNamesKey(),
+        this.getFencingTokenKey(lock.name),
+        this.getEntriesKey(lock.name),
+        lock.name,
+        this.getEntry(lock),
+        lock.createdAt.getTime(),
+        JSON.stringify({
+          enqueuedAt: lock.createdAt.getTime(),
+          owner: lock.owner,
+        } as EntryDetails),
+        ...this.getCompatibleTypes(lock),
+      );
+    } catch (error) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" has not been enqueued: ${error.message}`,
+      );
+    }
+  }
+
+  protected async tryToAcquire(lock: Lock): Promise<number> {
+    return this.#client.lockerAcquire(
+      this.getQueueKey(lock.name),
+      this.getFencingTokenKey(lock.name),
+      this.getEntry(lock),
+      ...this.getCompatibleTypes(lock),
+    );
+  }
+
+  protected async dequeueLock(lock: Lock, ifExists: boolean): Promise<boolean> {
+    const removedCount = await this.#client.lockerDequeue(
+      this.getQueueKey(lock.name),
+      this.getAtsKey(),
+      this.getNamesKey(),
+      this.getEntriesKey(lock.name),
+      lock.name,
+      this.getEntry(lock),
+    );
+
+    if (removedCount === 0 && !ifExists) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" was not in the queue anymore`,
+      );
+    }
+
+    return removedCount === 1;
+  }
+
+  /**
+   * The holder check and the "fencingToken" are made atomically by the scripts, which return either the "fencingToken", 0 if the lock waits, or -1 if it is not in the queue anymore
+   */
+  protected isLockAcquired(lock: Lock, fencingToken: number): boolean {
+    if (fencingToken < 0) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" is not in the queue anymore`,
+      );
+    } else if (fencingToken === 0) {
+      return false;
+    }
+
+    lock.fencingToken = fencingToken;
+    lock.status = LockStatus.Acquired;
+
+    return true;
+  }
+
+  public async lock(lock: Lock) {
+    // Push the lock into the dedicated queue
+    const fencingToken = await this.enqueueLock(lock);
+
+    // Either we acquired the lock immediately ...
+    if (!this.isLockAcquired(lock, fencingToken)) {
+      //... or we start pulling according to the "waitStrategy"
+      try {
+        while (
+          (await lock.wait()) &&
+          lock.isAcquiring() &&
+          !this.isLockAcquired(lock, await this.tryToAcquire(lock))
+        ) {
+          // Nothing to do here
+        }
+      } finally {
+        if (!lock.isAcquired()) {
+          await this.dequeueLock(lock, true);
+        }
+      }
+    }
+  }
+
+  public async release(lock: Lock) {
+    await this.dequeueLock(lock, false);
+
+    lock.status = LockStatus.Released;
+  }
+}
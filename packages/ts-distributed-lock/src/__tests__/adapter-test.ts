@@ -1,7 +1,24 @@
+import os from 'os';
 import { Locker } from '..';
 import { AdapterInterface } from '../adapter';
-import { AcquireTimeoutLockError } from '../error';
-import { Lock, LockName, LockSet, LockStatus } from '../lock';
+import {
+  AbortedLockError,
+  AcquireTimeoutLockError,
+  DeadlockLockError,
+  LockError,
+  LockerError,
+} from '../error';
+import {
+  AcquiredLock,
+  FairnessPolicy,
+  fixedWaitStrategy,
+  formatLockOwner,
+  Lock,
+  LockName,
+  LockSet,
+  LockStatus,
+  LockType,
+} from '../lock';
 import { LockerEventKind, LockerEventMap } from '../locker';
 import { sleep } from '../utils';
 
@@ -103,6 +120,46 @@ export function testAdapter(adapter: () => AdapterInterface): void {
       ]);
     });
 
+    it(`has a working garbage collector - some locks have been lost`, async () => {
+      const gc = 250;
+      locker = new Locker(adapter(), { gc });
+
+      const lostLocks: Lock[] = [];
+      locker.on(
+        LockerEventKind.LostLock,
+        (lock: LockerEventMap[LockerEventKind.LostLock]) =>
+          lostLocks.push(lock),
+      );
+
+      const [lostLock, task] = await new Promise<[Lock, Promise<boolean>]>(
+        (resolve) => {
+          const task = locker.ensureWritingTaskConcurrency(
+            'my-gc-has-lost-locks',
+            async (lock, signal) => {
+              resolve([lock, task]);
+
+              // Wait for the lock to be lost
+              while (!signal.aborted) {
+                await sleep(gc);
+              }
+
+              return signal.aborted;
+            },
+          );
+        },
+      );
+
+      // The store loses the lock behind the locker's back, as if it had been collected by another process
+      await locker.adapter.releaseAll();
+
+      await expect(task).resolves.toBe(true);
+
+      expect(lostLocks).toEqual([lostLock]);
+      expect(lostLock.status).toBe(LockStatus.Lost);
+      expect(lostLock.signal.aborted).toBe(true);
+      expect(locker.lockSet.has(lostLock)).toBe(false);
+    });
+
     it('works as expected', async () => {
       locker
         .on(
@@ -151,6 +208,955 @@ export function testAdapter(adapter: () => AdapterInterface): void {
       expect(locker.lockSet.size).toBe(0);
     });
 
+    it('aborts the acquisition and the tasks', async () => {
+      const lockName: LockName = 'my-aborted-lock';
+
+      const reader = await locker.lockAsReader(lockName);
+
+      // The "write" lock is dequeued once aborted
+      const abortController = new AbortController();
+      const writer = locker.lockAsWriter(lockName, {
+        signal: abortController.signal,
+      });
+      await sleep(50);
+      abortController.abort();
+      await expect(writer).rejects.toThrow(AbortedLockError);
+      expect(locker.lockSet.size).toBe(1);
+
+      // So it does not block a new "read" lock
+      await expect(
+        locker.lockAsReader(lockName, { acquireTimeout: 100 }),
+      ).resolves.toBeInstanceOf(Lock);
+
+      await locker.releaseMany(locker.lockSet);
+
+      // An already aborted signal
+      await expect(
+        locker.lockAsReader(lockName, { signal: abortController.signal }),
+      ).rejects.toThrow(AbortedLockError);
+
+      // The task is given a signal aborted with the given one
+      const taskAbortController = new AbortController();
+      await expect(
+        locker.ensureWritingTaskConcurrency(
+          lockName,
+          async (_lock, signal) => {
+            expect(signal.aborted).toBe(false);
+            taskAbortController.abort();
+            expect(signal.aborted).toBe(true);
+          },
+          { signal: taskAbortController.signal },
+        ),
+      ).resolves.toBeUndefined();
+
+      expect(locker.lockSet.size).toBe(0);
+      expect(reader.signal.aborted).toBe(true);
+    });
+
+    it('acquires several locks or none, without deadlock', async () => {
+      const firstLockName: LockName = 'my-first-many-lock';
+      const secondLockName: LockName = 'my-second-many-lock';
+
+      // The opposite orders do not deadlock
+      await expect(
+        Promise.all([
+          locker.ensureManyTaskConcurrency(
+            [
+              { name: firstLockName, as: LockType.Writer },
+              { name: secondLockName, as: LockType.Writer },
+            ],
+            async (lockSet) => {
+              await sleep(50);
+
+              return lockSet.size;
+            },
+            { acquireTimeout: 1000 },
+          ),
+          locker.ensureManyTaskConcurrency(
+            [
+              { name: secondLockName, as: LockType.Writer },
+              { name: firstLockName, as: LockType.Writer },
+            ],
+            async (lockSet) => {
+              await sleep(50);
+
+              return lockSet.size;
+            },
+            { acquireTimeout: 1000 },
+          ),
+        ]),
+      ).resolves.toEqual([2, 2]);
+
+      expect(locker.lockSet.size).toBe(0);
+
+      const writer = await locker.lockAsWriter(secondLockName);
+
+      // The first lock is released as the second one is not acquired
+      await expect(
+        locker.lockMany(
+          [
+            { name: secondLockName, as: LockType.Reader },
+            { name: firstLockName, as: LockType.Writer },
+          ],
+          { acquireTimeout: 100 },
+        ),
+      ).rejects.toThrow(AcquireTimeoutLockError);
+
+      expect([...locker.lockSet]).toEqual([writer]);
+      await expect(
+        locker.lockAsWriter(firstLockName, { acquireTimeout: 100 }),
+      ).resolves.toBeInstanceOf(Lock);
+
+      await locker.releaseMany(locker.lockSet);
+    });
+
+    it('inspects the queues', async () => {
+      if (!locker.adapter.inspect || !locker.adapter.list) {
+        return;
+      }
+
+      const lockName: LockName = 'my-inspected-lock';
+
+      await expect(locker.inspect(lockName)).resolves.toEqual({
+        name: lockName,
+        entries: [],
+      });
+
+      const readers = await Promise.all([
+        locker.lockAsReader(lockName),
+        locker.lockAsReader(lockName),
+      ]);
+      const writer = locker.lockAsWriter(lockName);
+      await sleep(50);
+
+      // A lock not owned by this locker
+      const otherLocker = new Locker(locker.adapter);
+      const otherReader = otherLocker.lockAsReader(lockName);
+      await sleep(50);
+
+      const queue = await locker.inspect(lockName);
+      expect(queue.name).toBe(lockName);
+      expect(queue.entries).toEqual([
+        expect.objectContaining({
+          id: readers[0].id,
+          type: LockType.Reader,
+          holder: true,
+          enqueuedAt: expect.any(Date),
+          refreshedAt: expect.any(Date),
+          lock: readers[0],
+        }),
+        expect.objectContaining({
+          id: readers[1].id,
+          type: LockType.Reader,
+          holder: true,
+          lock: readers[1],
+        }),
+        expect.objectContaining({
+          type: LockType.Writer,
+          holder: false,
+          lock: expect.any(Lock),
+        }),
+        expect.objectContaining({
+          type: LockType.Reader,
+          holder: false,
+        }),
+      ]);
+      expect(queue.entries[3].lock).toBeUndefined();
+
+      await expect(locker.list()).resolves.toEqual([queue]);
+
+      await locker.releaseMany(readers);
+      await locker.release(await writer);
+      await otherLocker.release(await otherReader);
+
+      await expect(locker.list()).resolves.toEqual([]);
+    });
+
+    it('tells who blocks the locks', async () => {
+      const lockName: LockName = 'my-owned-lock';
+
+      const ownerLocker = new Locker(locker.adapter, { id: 'my-locker' });
+      const writer = await ownerLocker.lockAsWriter(lockName, {
+        payload: { jobId: 42 },
+      });
+
+      const error = await locker
+        .lockAsReader(lockName, { acquireTimeout: 100 })
+        .catch((error) => error);
+      expect(error).toBeInstanceOf(AcquireTimeoutLockError);
+
+      const owner = {
+        hostname: os.hostname(),
+        pid: process.pid,
+        lockerId: 'my-locker',
+        payload: { jobId: 42 },
+      };
+
+      // The owner round-trips through the adapter ...
+      expect((await locker.inspect(lockName)).entries).toEqual([
+        expect.objectContaining({ id: writer.id, owner }),
+      ]);
+
+      // ... and is reported by the errors
+      expect(error.blockers).toEqual([
+        expect.objectContaining({ id: writer.id, owner }),
+      ]);
+      expect(error.message).toContain(
+        `blocked by the "${LockType.Writer}" lock "${
+          writer.id
+        }" of ${formatLockOwner(owner)}`,
+      );
+
+      await ownerLocker.release(writer);
+    });
+
+    it('rejects the locks at their timeout, even if their blockers cannot be looked up', async () => {
+      if (!locker.adapter.inspect) {
+        return;
+      }
+
+      const lockName: LockName = 'my-slowly-inspected-lock';
+
+      const writer = await locker.lockAsWriter(lockName);
+      const inspect = jest
+        .spyOn(locker.adapter, 'inspect')
+        .mockReturnValue(new Promise(() => {}));
+
+      try {
+        const startedAt = Date.now();
+        const error = await locker
+          .lockAsReader(lockName, { acquireTimeout: 100 })
+          .catch((error) => error);
+
+        expect(error).toBeInstanceOf(AcquireTimeoutLockError);
+        expect(error.blockers).toEqual([]);
+        expect(Date.now() - startedAt).toBeLessThan(500);
+      } finally {
+        inspect.mockRestore();
+      }
+
+      await locker.release(writer);
+    });
+
+    it('force-releases the stuck locks', async () => {
+      if (!locker.adapter.forceRelease) {
+        return;
+      }
+
+      const lockName: LockName = 'my-stuck-lock';
+
+      // A lock of another locker, whose process has got stuck
+      const stuckLock = await new Locker(locker.adapter).lockAsWriter(lockName);
+
+      const reader = locker.lockAsReader(lockName);
+      await sleep(50);
+      expect(locker.lockSet.size).toBe(1);
+
+      await expect(locker.forceRelease(lockName, stuckLock.id)).resolves.toBe(
+        true,
+      );
+      await expect(reader).resolves.toBeInstanceOf(Lock);
+
+      // It is not in the queue anymore
+      await expect(locker.forceRelease(lockName, stuckLock.id)).resolves.toBe(
+        false,
+      );
+      await expect(
+        locker.forceRelease('my-unknown-lock', stuckLock.id),
+      ).resolves.toBe(false);
+    });
+
+    it('hands out strictly increasing fencing tokens', async () => {
+      const lockName: LockName = 'my-fenced-lock';
+
+      const firstLock = await locker.lockAsWriter(lockName);
+      expect(firstLock.fencingToken).toEqual(expect.any(Number));
+      await locker.release(firstLock);
+
+      const readers = await Promise.all([
+        locker.lockAsReader(lockName),
+        locker.lockAsReader(lockName),
+      ]);
+      expect(readers[0].fencingToken).toBeGreaterThan(firstLock.fencingToken!);
+      expect(readers[1].fencingToken).toBeGreaterThan(firstLock.fencingToken!);
+      expect(readers[0].fencingToken).not.toBe(readers[1].fencingToken);
+      await locker.releaseMany(readers);
+
+      // The tokens keep increasing, even after all the locks have been released
+      await locker.releaseAll();
+
+      const lastLock = await locker.lockAsWriter(lockName);
+      expect(lastLock.fencingToken).toBeGreaterThan(
+        Math.max(...readers.map(({ fencingToken }) => fencingToken!)),
+      );
+      await locker.release(lastLock);
+    });
+
+    it('forgets the names not locked anymore', async () => {
+      if (!locker.adapter.forget) {
+        return;
+      }
+
+      const lockName: LockName = 'my-forgotten-lock';
+
+      // A locked name is not forgotten
+      const firstLock = await locker.lockAsWriter(lockName);
+      await locker.adapter.forget(lockName);
+      await locker.release(firstLock);
+
+      const secondLock = await locker.lockAsWriter(lockName);
+      expect(secondLock.fencingToken).toBeGreaterThan(firstLock.fencingToken!);
+      await locker.release(secondLock);
+
+      // Its "fencingToken"s start over once forgotten
+      await locker.adapter.forget(lockName);
+
+      const lastLock = await locker.lockAsWriter(lockName);
+      expect(lastLock.fencingToken).toBe(firstLock.fencingToken);
+      await locker.release(lastLock);
+    });
+
+    it('tries to acquire the locks without waiting', async () => {
+      if (!locker.adapter.tryLock) {
+        return;
+      }
+
+      const lockName: LockName = 'my-tried-lock';
+
+      const firstReader = await locker.tryLockAsReader(lockName);
+      expect(firstReader).toBeInstanceOf(Lock);
+      expect(firstReader?.fencingToken).toEqual(expect.any(Number));
+      await expect(locker.tryLockAsReader(lockName)).resolves.toBeInstanceOf(
+        Lock,
+      );
+
+      // The "write" lock is not acquired, and is not enqueued
+      await expect(locker.tryLockAsWriter(lockName)).resolves.toBeUndefined();
+      expect(locker.lockSet.size).toBe(2);
+
+      // So it does not block a new "read" lock
+      await expect(
+        locker.lockAsReader(lockName, { acquireTimeout: 100 }),
+      ).resolves.toBeInstanceOf(Lock);
+
+      await locker.releaseMany(locker.lockSet);
+
+      const writer = await locker.tryLockAsWriter(lockName);
+      expect(writer).toBeInstanceOf(Lock);
+      await expect(locker.tryLockAsReader(lockName)).resolves.toBeUndefined();
+      await expect(locker.tryLockAsWriter(lockName)).resolves.toBeUndefined();
+
+      await locker.release(writer!);
+    });
+
+    it('re-enters the locks held by the task', async () => {
+      const lockName: LockName = 'my-reentrant-lock';
+
+      await expect(
+        locker.ensureWritingTaskConcurrency(lockName, async (lock) => {
+          const result = await locker.ensureWritingTaskConcurrency(
+            lockName,
+            async (nestedLock) => {
+              expect(nestedLock).toBe(lock);
+              expect(lock.holdCount).toBe(2);
+
+              // The "writer" lock also covers the reading
+              await locker.ensureReadingTaskConcurrency(
+                lockName,
+                (readerLock) => {
+                  expect(readerLock).toBe(lock);
+                  expect(lock.holdCount).toBe(3);
+                },
+              );
+
+              return 'my-result';
+            },
+            { acquireTimeout: 100 },
+          );
+
+          // The lock is released only once the outermost task exits
+          expect(lock.isAcquired()).toBe(true);
+          expect(lock.holdCount).toBe(1);
+
+          return result;
+        }),
+      ).resolves.toBe('my-result');
+      expect(locker.lockSet.size).toBe(0);
+
+      // A "reader" lock is not upgraded implicitly
+      await expect(
+        locker.ensureReadingTaskConcurrency(lockName, () =>
+          locker.ensureWritingTaskConcurrency(lockName, () => 'never'),
+        ),
+      ).rejects.toThrow(DeadlockLockError);
+      expect(locker.lockSet.size).toBe(0);
+
+      // The lock is not re-entered outside of the task
+      const task = locker.ensureWritingTaskConcurrency(lockName, () =>
+        sleep(100),
+      );
+      await sleep(20);
+      await expect(
+        locker.lockAsWriter(lockName, { acquireTimeout: 50 }),
+      ).rejects.toThrow(AcquireTimeoutLockError);
+      await task;
+    });
+
+    it('locks the subtrees of the hierarchical names', async () => {
+      const hierarchicalLocker = new Locker(locker.adapter, {
+        separator: '/',
+      });
+
+      // A "writer" lock on a node conflicts with any lock under it ...
+      const site = await hierarchicalLocker.lockAsWriter('my-site/42');
+      await expect(
+        hierarchicalLocker.lockAsReader('my-site/42/article/7', {
+          acquireTimeout: 100,
+        }),
+      ).rejects.toThrow(AcquireTimeoutLockError);
+      expect(hierarchicalLocker.lockSet.size).toBe(2);
+
+      // ... but not with the ones of the sibling subtrees
+      const otherSite = await hierarchicalLocker.lockAsWriter(
+        'my-site/43/article/7',
+        { acquireTimeout: 500 },
+      );
+      expect(hierarchicalLocker.lockSet.size).toBe(6);
+      await hierarchicalLocker.releaseMany([site, otherSite]);
+      expect(hierarchicalLocker.lockSet.size).toBe(0);
+
+      // The sibling nodes are independent
+      const article = await hierarchicalLocker.lockAsWriter(
+        'my-site/42/article/7',
+      );
+      const otherArticle = await hierarchicalLocker.lockAsWriter(
+        'my-site/42/article/8',
+        { acquireTimeout: 500 },
+      );
+      const reader = await hierarchicalLocker.lockAsReader(
+        'my-site/42/article/9',
+        { acquireTimeout: 500 },
+      );
+
+      // A "writer" lock on an ancestor waits for the locks under it
+      await expect(
+        hierarchicalLocker.lockAsWriter('my-site/42', { acquireTimeout: 100 }),
+      ).rejects.toThrow(AcquireTimeoutLockError);
+      await expect(
+        hierarchicalLocker.lockAsReader('my-site', { acquireTimeout: 100 }),
+      ).rejects.toThrow(AcquireTimeoutLockError);
+
+      await hierarchicalLocker.releaseMany([article, otherArticle]);
+
+      // A "reader" lock on an ancestor coexists with the "reader" locks under it
+      const siteReader = await hierarchicalLocker.lockAsReader('my-site', {
+        acquireTimeout: 500,
+      });
+
+      await hierarchicalLocker.releaseMany([reader, siteReader]);
+      expect(hierarchicalLocker.lockSet.size).toBe(0);
+    });
+
+    it('locks several hierarchical names in a canonical order', async () => {
+      const hierarchicalLocker = new Locker(locker.adapter, {
+        separator: '/',
+      });
+
+      // "my-tree" is locked before "my-tree-leaf", as the intention lock of "my-tree/branch"
+      await expect(
+        Promise.all([
+          hierarchicalLocker.ensureManyTaskConcurrency(
+            [
+              { name: 'my-tree/branch', as: LockType.Writer },
+              { name: 'my-tree-leaf', as: LockType.Writer },
+            ],
+            async (lockSet) => {
+              await sleep(50);
+
+              return lockSet.size;
+            },
+            { acquireTimeout: 1000 },
+          ),
+          hierarchicalLocker.ensureManyTaskConcurrency(
+            [
+              { name: 'my-tree', as: LockType.Writer },
+              { name: 'my-tree-leaf', as: LockType.Writer },
+            ],
+            async (lockSet) => {
+              await sleep(50);
+
+              return lockSet.size;
+            },
+            { acquireTimeout: 1000 },
+          ),
+        ]),
+      ).resolves.toEqual([2, 2]);
+
+      expect(hierarchicalLocker.lockSet.size).toBe(0);
+
+      // The intention lock of a shared ancestor is taken once
+      const lockSet = await hierarchicalLocker.lockMany([
+        { name: 'my-tree/branch/leaf', as: LockType.Writer },
+        { name: 'my-tree/other-branch', as: LockType.Reader },
+      ]);
+      expect(lockSet.size).toBe(2);
+      expect(
+        hierarchicalLocker.lockSet.filterByName('my-tree').getIds(),
+      ).toHaveLength(1);
+      expect(
+        hierarchicalLocker.lockSet
+          .filterByName('my-tree')
+          .filterByType(LockType.IntentionExclusive).size,
+      ).toBe(1);
+
+      await hierarchicalLocker.releaseMany(
+        lockSet.filterByName('my-tree/branch/leaf'),
+      );
+      expect(hierarchicalLocker.lockSet.getNames()).toEqual([
+        'my-tree',
+        'my-tree/other-branch',
+      ]);
+      await hierarchicalLocker.releaseMany(lockSet);
+      expect(hierarchicalLocker.lockSet.size).toBe(0);
+
+      await expect(
+        hierarchicalLocker.lockMany([
+          { name: 'my-tree', as: LockType.Writer },
+          { name: 'my-tree/branch', as: LockType.Reader },
+        ]),
+      ).rejects.toThrow(LockerError);
+      expect(hierarchicalLocker.lockSet.size).toBe(0);
+    });
+
+    it('re-enters the ancestors held by the task for their descendants', async () => {
+      const hierarchicalLocker = new Locker(locker.adapter, {
+        separator: '/',
+      });
+
+      await expect(
+        hierarchicalLocker.ensureWritingTaskConcurrency(
+          'my-site/42',
+          async (site) => {
+            // The "writer" lock of the ancestor covers its descendants, instead of queueing their intention locks behind it
+            await hierarchicalLocker.ensureWritingTaskConcurrency(
+              'my-site/42/article/7',
+              async (article) => {
+                expect(article).toBe(site);
+                expect(site.holdCount).toBe(2);
+
+                await hierarchicalLocker.ensureManyTaskConcurrency(
+                  [
+                    { name: 'my-site/42/article/8', as: LockType.Writer },
+                    { name: 'my-site/42/article/9', as: LockType.Reader },
+                  ],
+                  (lockSet) => {
+                    expect([...lockSet]).toEqual([site]);
+                    expect(site.holdCount).toBe(3);
+                  },
+                );
+              },
+              { acquireTimeout: 100 },
+            );
+
+            expect(site.holdCount).toBe(1);
+            expect(hierarchicalLocker.lockSet.size).toBe(2);
+
+            return 'my-result';
+          },
+        ),
+      ).resolves.toBe('my-result');
+      expect(hierarchicalLocker.lockSet.size).toBe(0);
+
+      // A "reader" lock on an ancestor covers the reading of its descendants only
+      await expect(
+        hierarchicalLocker.ensureReadingTaskConcurrency('my-site/42', (site) =>
+          hierarchicalLocker.ensureReadingTaskConcurrency(
+            'my-site/42/article/7',
+            (article) => expect(article).toBe(site),
+          ),
+        ),
+      ).resolves.toBeUndefined();
+      await expect(
+        hierarchicalLocker.ensureReadingTaskConcurrency('my-site/42', () =>
+          hierarchicalLocker.ensureWritingTaskConcurrency(
+            'my-site/42/article/7',
+            () => 'never',
+          ),
+        ),
+      ).rejects.toThrow(DeadlockLockError);
+      expect(hierarchicalLocker.lockSet.size).toBe(0);
+    });
+
+    it('grants the locks according to the fairness policies', async () => {
+      const lockName: LockName = 'my-fair-lock';
+
+      if (!locker.adapter.fairnessPolicies) {
+        await expect(
+          locker.lockAsReader(lockName, {
+            fairness: FairnessPolicy.ReaderPreference,
+          }),
+        ).rejects.toThrow(LockerError);
+
+        return;
+      }
+
+      const reader = await locker.lockAsReader(lockName);
+      const writer = locker.lockAsWriter(lockName);
+      await sleep(50);
+
+      // A "reader" lock overtakes the waiting "writer" lock ...
+      const preferredReader = await locker.lockAsReader(lockName, {
+        fairness: FairnessPolicy.ReaderPreference,
+        acquireTimeout: 500,
+      });
+
+      // ... unless it waits behind it
+      for (const fairness of [
+        FairnessPolicy.Fifo,
+        FairnessPolicy.WriterPreference,
+        FairnessPolicy.PhaseFair,
+      ]) {
+        await expect(
+          locker.lockAsReader(lockName, { fairness, acquireTimeout: 100 }),
+        ).rejects.toThrow(AcquireTimeoutLockError);
+      }
+
+      await locker.releaseMany([reader, preferredReader]);
+      await locker.release(await writer);
+
+      // A "writer" lock overtakes the waiting "reader" lock
+      const fairnessLocker = new Locker(locker.adapter, {
+        fairness: FairnessPolicy.WriterPreference,
+      });
+      const firstWriter = await fairnessLocker.lockAsWriter(lockName);
+      const waitingReader = fairnessLocker.lockAsReader(lockName);
+      await sleep(50);
+      const preferredWriter = fairnessLocker.lockAsWriter(lockName);
+      await sleep(50);
+
+      const acquired: LockType[] = [];
+      waitingReader.then(({ type }) => acquired.push(type));
+      preferredWriter.then(({ type }) => acquired.push(type));
+
+      await fairnessLocker.release(firstWriter);
+      await fairnessLocker.release(await preferredWriter);
+      await fairnessLocker.release(await waitingReader);
+      expect(acquired).toEqual([LockType.Writer, LockType.Reader]);
+    });
+
+    it('places the waiting locks according to their priority', async () => {
+      const lockName: LockName = 'my-prioritized-lock';
+
+      if (!locker.adapter.prioritized) {
+        await expect(
+          locker.lockAsWriter(lockName, { priority: 1 }),
+        ).rejects.toThrow(LockerError);
+
+        return;
+      }
+
+      const holder = await locker.lockAsWriter(lockName);
+
+      const acquired: string[] = [];
+      const batch = locker
+        .lockAsWriter(lockName, { priority: -1 })
+        .then((lock) => (acquired.push('batch'), lock));
+      await sleep(50);
+      const editor = locker
+        .lockAsWriter(lockName)
+        .then((lock) => (acquired.push('editor'), lock));
+      await sleep(50);
+
+      // The holder is not preempted
+      expect(acquired).toEqual([]);
+
+      await locker.release(holder);
+      await locker.release(await editor);
+      await locker.release(await batch);
+      expect(acquired).toEqual(['editor', 'batch']);
+    });
+
+    it('acquires the permits of the semaphores', async () => {
+      if (!locker.adapter.lockSemaphore) {
+        return;
+      }
+
+      const lockName: LockName = 'my-semaphore';
+
+      const holders = await Promise.all([
+        locker.acquireSemaphore(lockName, { permits: 2 }),
+        locker.acquireSemaphore(lockName, { permits: 2 }),
+      ]);
+      expect(holders[0].fencingToken).toEqual(expect.any(Number));
+
+      // Both permits are held
+      await expect(
+        locker.acquireSemaphore(lockName, { permits: 2, acquireTimeout: 100 }),
+      ).rejects.toThrow(AcquireTimeoutLockError);
+
+      // The waiting locks acquire the released permits in FIFO order
+      const acquired: string[] = [];
+      const firstWaiting = locker
+        .acquireSemaphore(lockName, { permits: 2 })
+        .then((lock) => (acquired.push('first'), lock));
+      await sleep(50);
+      const secondWaiting = locker
+        .acquireSemaphore(lockName, { permits: 2 })
+        .then((lock) => (acquired.push('second'), lock));
+      await sleep(50);
+
+      await locker.release(holders[0]);
+      await firstWaiting;
+      await sleep(50);
+      expect(acquired).toEqual(['first']);
+
+      await locker.release(holders[1]);
+      await secondWaiting;
+      expect(acquired).toEqual(['first', 'second']);
+
+      // The name is not shared with another number of permits, nor with the "reader" & "writer" locks
+      await expect(
+        locker.acquireSemaphore(lockName, { permits: 3 }),
+      ).rejects.toThrow(LockError);
+      await expect(locker.lockAsReader(lockName)).rejects.toThrow(LockError);
+      await expect(
+        locker.acquireSemaphore(lockName, { permits: 0 }),
+      ).rejects.toThrow('"permits"');
+
+      await locker.releaseMany(locker.lockSet);
+
+      // At most "permits" tasks run concurrently
+      let concurrency: number = 0;
+      let maxConcurrency: number = 0;
+
+      await Promise.all(
+        [...new Array(6)].map(() =>
+          locker.ensureSemaphoreTaskConcurrency(
+            lockName,
+            async () => {
+              maxConcurrency = Math.max(maxConcurrency, ++concurrency);
+              await sleep(50);
+              concurrency--;
+            },
+            { permits: 3 },
+          ),
+        ),
+      );
+
+      expect(maxConcurrency).toBe(3);
+      expect(locker.lockSet.size).toBe(0);
+    });
+
+    it('upgrades and downgrades the acquired locks', async () => {
+      if (!locker.adapter.upgrade || !locker.adapter.downgrade) {
+        return;
+      }
+
+      const lockName: LockName = 'my-upgraded-lock';
+
+      const [firstReader, secondReader] = await Promise.all([
+        locker.lockAsReader(lockName),
+        locker.lockAsReader(lockName),
+      ]);
+
+      // The upgrade has to wait for the release of the other "read" lock
+      await expect(
+        locker.upgrade(firstReader, { acquireTimeout: 100 }),
+      ).rejects.toThrow(AcquireTimeoutLockError);
+      expect(firstReader.status).toBe(LockStatus.Acquired);
+      expect(firstReader.type).toBe(LockType.Reader);
+
+      const upgrade = locker.upgrade(firstReader);
+      await sleep(50);
+
+      // Another upgrade would be a deadlock
+      await expect(locker.upgrade(secondReader)).rejects.toThrow(
+        DeadlockLockError,
+      );
+
+      // A new "read" lock has to wait for the upgraded lock
+      await expect(
+        locker.lockAsReader(lockName, { acquireTimeout: 100 }),
+      ).rejects.toThrow(AcquireTimeoutLockError);
+
+      await locker.release(secondReader);
+      await expect(upgrade).resolves.toBe(firstReader);
+      expect(firstReader.status).toBe(LockStatus.Acquired);
+      expect(firstReader.type).toBe(LockType.Writer);
+
+      // The waiting "read" lock is acquired once downgraded
+      const reader = locker.lockAsReader(lockName);
+      await sleep(50);
+      await expect(locker.downgrade(firstReader)).resolves.toBe(firstReader);
+      expect(firstReader.type).toBe(LockType.Reader);
+      await expect(reader).resolves.toBeInstanceOf(Lock);
+
+      await locker.releaseMany(locker.lockSet);
+    });
+
+    it('expires the locks held past their "maxHoldDuration"', async () => {
+      const lockName: LockName = 'my-expiring-lock';
+
+      await expect(
+        locker.lockAsWriter(lockName, { maxHoldDuration: 0 }),
+      ).rejects.toThrow(LockError);
+
+      const expiredLock = new Promise<Lock>((resolve) =>
+        locker.once(LockerEventKind.ExpiredLock, resolve),
+      );
+
+      const task = locker.ensureWritingTaskConcurrency(
+        lockName,
+        async (_lock, signal) => {
+          await sleep(1000, signal);
+
+          return signal.aborted;
+        },
+        { maxHoldDuration: 100 },
+      );
+      await sleep(20);
+
+      // The lock is force-released and the signal of its task aborted
+      const writer = await locker.lockAsWriter(lockName, {
+        acquireTimeout: 500,
+      });
+      await expect(task).resolves.toBe(true);
+
+      // The event is emitted once the lock has been released, whoever dropped it from the store first
+      expect((await expiredLock).isReleased()).toBe(true);
+      await locker.release(writer);
+
+      if (!locker.adapter.expiring) {
+        return;
+      }
+
+      // The store drops the expired locks, even if their process is frozen
+      class FrozenLocker extends Locker {
+        protected scheduleExpiration(): void {
+          // Never expires
+        }
+      }
+
+      const frozenLocker = new FrozenLocker(locker.adapter);
+      await frozenLocker.lockAsWriter(lockName, { maxHoldDuration: 100 });
+
+      await locker.release(
+        await locker.lockAsWriter(lockName, { acquireTimeout: 500 }),
+      );
+
+      if (locker.adapter.tryLock) {
+        await frozenLocker.lockAsWriter(lockName, { maxHoldDuration: 100 });
+        await expect(locker.tryLockAsWriter(lockName)).resolves.toBeUndefined();
+        await sleep(150);
+
+        const tryWriter = await locker.tryLockAsWriter(lockName);
+        expect(tryWriter).toBeInstanceOf(Lock);
+        await locker.release(tryWriter!);
+      }
+
+      // The lock dropped from the store before its locker expires it is released all the same
+      class LateLocker extends Locker {
+        protected scheduleExpiration(lock: AcquiredLock): void {
+          setTimeout(() => this.expire(lock), 300);
+        }
+      }
+
+      const lateLocker = new LateLocker(locker.adapter);
+      const releasedLocks: Lock[] = [];
+      lateLocker.on(LockerEventKind.ReleasedLock, (lock) =>
+        releasedLocks.push(lock),
+      );
+      const lateExpiredLock = new Promise<Lock>((resolve) =>
+        lateLocker.once(LockerEventKind.ExpiredLock, resolve),
+      );
+
+      const lateLock = await lateLocker.lockAsWriter(lockName, {
+        maxHoldDuration: 100,
+      });
+      await locker.release(
+        await locker.lockAsWriter(lockName, { acquireTimeout: 500 }),
+      );
+
+      await expect(lateExpiredLock).resolves.toBe(lateLock);
+      expect(lateLock.isReleased()).toBe(true);
+      expect(releasedLocks).toEqual([lateLock]);
+      expect(lateLocker.lockSet.size).toBe(0);
+    });
+
+    it('closes gracefully', async () => {
+      const lockName: LockName = 'my-closed-lock';
+
+      const closingLocker = new Locker(adapter(), { gc: 1000 });
+      await closingLocker.setup();
+
+      let taskSignal: AbortSignal | undefined;
+      const task = closingLocker.ensureWritingTaskConcurrency(
+        lockName,
+        async (_lock, signal) => {
+          taskSignal = signal;
+          await sleep(100);
+
+          return 'my-result';
+        },
+      );
+
+      // Whatever the time the adapter takes to acquire the lock
+      while (!taskSignal) {
+        await sleep(5);
+      }
+
+      const pendingLock = closingLocker.lockAsWriter(lockName);
+      await sleep(20);
+
+      const closing = closingLocker.close({ timeout: 1000 });
+
+      // The running tasks are told to stop at once ...
+      expect(taskSignal?.aborted).toBe(true);
+
+      // ... the pending acquisitions are rejected and the new ones refused ...
+      await expect(pendingLock).rejects.toThrow('as the locker is closing');
+      await expect(closingLocker.lockAsReader(lockName)).rejects.toThrow(
+        LockerError,
+      );
+
+      // ... while the running tasks are waited for
+      await expect(task).resolves.toBe('my-result');
+      await closing;
+      expect(closingLocker.lockSet.size).toBe(0);
+
+      // The locks of the tasks running past the timeout are released anyway
+      const otherLocker = new Locker(adapter());
+      await otherLocker.setup();
+
+      let stuckLock: Lock | undefined;
+      const stuckTask = otherLocker.ensureWritingTaskConcurrency(
+        lockName,
+        async (lock) => {
+          stuckLock = lock;
+
+          // It does not stop when its signal is aborted
+          await sleep(200);
+        },
+      );
+
+      while (!stuckLock) {
+        await sleep(5);
+      }
+
+      // The locker is closed on the given signals
+      const otherListener = () => {};
+      process.on('SIGUSR2', otherListener);
+      otherLocker.closeOnSignals(['SIGUSR2'], { timeout: 50 });
+      process.emit('SIGUSR2', 'SIGUSR2');
+
+      await otherLocker.close();
+      process.removeListener('SIGUSR2', otherListener);
+
+      expect(stuckLock?.isReleased()).toBe(true);
+      expect(otherLocker.lockSet.size).toBe(0);
+      await stuckTask;
+    });
+
     it('works as expected for concurrency', async () => {
       const lockName: LockName = 'my-another-lock';
 
@@ -222,7 +1228,7 @@ export function testAdapter(adapter: () => AdapterInterface): void {
               locker.ensureWritingTaskConcurrency(
                 lockName,
                 async () => sleep(100),
-                { pullInterval: 5 },
+                { waitStrategy: fixedWaitStrategy(5) },
               ),
             ),
           ),
@@ -231,7 +1237,7 @@ export function testAdapter(adapter: () => AdapterInterface): void {
               locker.ensureReadingTaskConcurrency(
                 lockName,
                 async () => sleep(1000),
-                { pullInterval: 5 },
+                { waitStrategy: fixedWaitStrategy(5) },
               ),
             ),
           ),
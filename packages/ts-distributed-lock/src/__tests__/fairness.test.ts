@@ -0,0 +1,179 @@
+import {
+  FairnessEntry,
+  getHolders,
+  getIncompatibleTypes,
+  getQueuePosition,
+} from '../fairness';
+import { FairnessPolicy, LockType } from '../lock';
+
+/**
+ * "R"/"W" for a waiting "reader"/"writer" lock, "r"/"w" for a held one, "u" for a held lock being upgraded
+ */
+const parse = (queue: string): FairnessEntry[] =>
+  [...queue].map((char) => ({
+    type: 'rRu'.includes(char) ? LockType.Reader : LockType.Writer,
+    held: char === char.toLowerCase(),
+    upgrading: char === 'u',
+  }));
+
+const grant = (queue: string, policy?: FairnessPolicy): string =>
+  getHolders(parse(queue), policy)
+    .map((holder) => (holder ? 'x' : '.'))
+    .join('');
+
+describe('Fairness', () => {
+  it('grants the locks in their order of arrival by default', () => {
+    expect(grant('')).toBe('');
+    expect(grant('W')).toBe('x');
+    expect(grant('WR')).toBe('x.');
+    expect(grant('RRWR')).toBe('xx..');
+    expect(grant('rWR')).toBe('x..');
+    expect(grant('rRW')).toBe('xx.');
+    expect(grant('wR')).toBe('x.');
+    expect(grant('uR')).toBe('x.');
+    expect(grant('ruW')).toBe('xx.');
+
+    expect(grant('RRWR', FairnessPolicy.Fifo)).toBe(grant('RRWR'));
+  });
+
+  it('grants the "reader" locks first with the reader-preference policy', () => {
+    const policy = FairnessPolicy.ReaderPreference;
+
+    expect(grant('WR', policy)).toBe('.x');
+    expect(grant('rWR', policy)).toBe('x.x');
+    expect(grant('WW', policy)).toBe('x.');
+    expect(grant('wR', policy)).toBe('x.');
+    expect(grant('uR', policy)).toBe('x.');
+  });
+
+  it('grants the "writer" locks first with the writer-preference policy', () => {
+    const policy = FairnessPolicy.WriterPreference;
+
+    expect(grant('RW', policy)).toBe('.x');
+    expect(grant('rWR', policy)).toBe('x..');
+    expect(grant('RR', policy)).toBe('xx');
+    expect(grant('WRW', policy)).toBe('x..');
+  });
+
+  it('alternates the "reader" and "writer" phases with the phase-fair policy', () => {
+    const policy = FairnessPolicy.PhaseFair;
+
+    // All the waiting "reader" locks start a new reading phase
+    expect(grant('RRWR', policy)).toBe('xx.x');
+    // A "writer" lock starts a new writing phase
+    expect(grant('WRRW', policy)).toBe('x...');
+    // The current reading phase is joined unless a "writer" lock waits
+    expect(grant('rR', policy)).toBe('xx');
+    expect(grant('rWR', policy)).toBe('x..');
+    expect(grant('wRW', policy)).toBe('x..');
+  });
+
+  it('never grants conflicting locks, whatever the policy', () => {
+    for (const policy of Object.values(FairnessPolicy)) {
+      expect(grant('rW', policy)).toBe('x.');
+      expect(grant('Wr', policy)).toBe('.x');
+      expect(grant('wR', policy)).toBe('x.');
+      expect(grant('Rw', policy)).toBe('.x');
+      expect(grant('Ww', policy)).toBe('.x');
+    }
+  });
+
+  it('grants the intention locks according to the compatibility matrix', () => {
+    const grantTypes = (queue: ReadonlyArray<FairnessEntry>): boolean[] =>
+      getHolders(queue);
+
+    const {
+      IntentionShared: IS,
+      IntentionExclusive: IX,
+      Reader,
+      Writer,
+    } = LockType;
+
+    // The intention locks are compatible with each other
+    expect(grantTypes([{ type: IX }, { type: IS }, { type: IX }])).toEqual([
+      true,
+      true,
+      true,
+    ]);
+    // A "reader" lock is compatible with the "intention-shared" ones only
+    expect(grantTypes([{ type: IS }, { type: Reader }, { type: IS }])).toEqual([
+      true,
+      true,
+      true,
+    ]);
+    expect(grantTypes([{ type: IX }, { type: Reader }])).toEqual([true, false]);
+    expect(grantTypes([{ type: Reader, held: true }, { type: IX }])).toEqual([
+      true,
+      false,
+    ]);
+    // A "writer" lock is compatible with none
+    expect(grantTypes([{ type: IS }, { type: Writer }])).toEqual([true, false]);
+    expect(grantTypes([{ type: Writer, held: true }, { type: IS }])).toEqual([
+      true,
+      false,
+    ]);
+    // An intention lock does not overtake the locks arrived before it
+    expect(
+      grantTypes([{ type: IS, held: true }, { type: Writer }, { type: IS }]),
+    ).toEqual([true, false, false]);
+
+    expect(getIncompatibleTypes(IS).sort()).toEqual(
+      [Writer, LockType.Semaphore].sort(),
+    );
+    expect(getIncompatibleTypes(Writer)).toEqual(Object.values(LockType));
+  });
+
+  it('grants the first "permits" semaphore locks', () => {
+    expect(
+      getHolders(
+        [...new Array(4)].map(() => ({
+          type: LockType.Semaphore,
+          permits: 2,
+        })),
+      ),
+    ).toEqual([true, true, false, false]);
+  });
+
+  it('places the new locks ahead of the waiting ones of lower priority', () => {
+    const at = new Date();
+    const ago = (ms: number): Date => new Date(at.getTime() - ms);
+
+    const queue = [
+      { type: LockType.Writer, held: true, priority: -5, enqueuedAt: at },
+      { type: LockType.Writer, priority: 1, enqueuedAt: at },
+      { type: LockType.Writer, enqueuedAt: at },
+      { type: LockType.Writer, priority: -1, enqueuedAt: at },
+    ];
+
+    expect(getQueuePosition([], 0, 60000, at)).toBe(0);
+    expect(getQueuePosition(queue, -1, 60000, at)).toBe(4);
+    expect(getQueuePosition(queue, 0, 60000, at)).toBe(3);
+    expect(getQueuePosition(queue, 1, 60000, at)).toBe(2);
+    // The holders are never preempted
+    expect(getQueuePosition(queue, 10, 60000, at)).toBe(1);
+
+    // The priority of the waiting locks is raised by 1 every "priorityAging"ms
+    expect(
+      getQueuePosition(
+        [
+          { type: LockType.Writer, held: true, enqueuedAt: at },
+          { type: LockType.Writer, priority: -1, enqueuedAt: ago(120000) },
+        ],
+        0,
+        60000,
+        at,
+      ),
+    ).toBe(2);
+    expect(
+      getQueuePosition(
+        [
+          { type: LockType.Writer, held: true, enqueuedAt: at },
+          { type: LockType.Writer, priority: -1, enqueuedAt: ago(30000) },
+        ],
+        0,
+        60000,
+        at,
+      ),
+    ).toBe(1);
+  });
+});
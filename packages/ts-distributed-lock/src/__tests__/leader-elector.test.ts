@@ -0,0 +1,112 @@
+import { once } from 'events';
+import { InMemoryAdapter } from '../adapter/in-memory-adapter';
+import { LockerError } from '../error';
+import { LeaderElector, LeaderElectorEventKind } from '../leader-elector';
+import { Locker } from '../locker';
+import { sleep } from '../utils';
+
+describe('LeaderElector', () => {
+  it('elects a single leader and hands the leadership over', async () => {
+    const adapter = new InMemoryAdapter();
+    const name = 'my-leadership';
+
+    const first = new LeaderElector(
+      new Locker(adapter, { id: 'first', gc: 100 }),
+      name,
+    );
+    const second = new LeaderElector(
+      new Locker(adapter, { id: 'second', gc: 100 }),
+      name,
+      { payload: { role: 'scheduler' } },
+    );
+
+    const firstElected = once(first, LeaderElectorEventKind.Elected);
+    first.campaign();
+    await firstElected;
+
+    second.campaign();
+    await sleep(50);
+
+    expect(first.isLeader).toBe(true);
+    expect(second.isLeader).toBe(false);
+    await expect(second.getLeader()).resolves.toEqual(
+      expect.objectContaining({ lockerId: 'first' }),
+    );
+
+    // A follower takes over once the leader resigns ...
+    const firstRevoked = once(first, LeaderElectorEventKind.Revoked);
+    const secondElected = once(second, LeaderElectorEventKind.Elected);
+    await first.resign();
+    await Promise.all([firstRevoked, secondElected]);
+
+    expect(first.isLeader).toBe(false);
+    expect(second.isLeader).toBe(true);
+    await expect(first.getLeader()).resolves.toEqual(
+      expect.objectContaining({
+        lockerId: 'second',
+        payload: { role: 'scheduler' },
+      }),
+    );
+
+    // ... or once its lock is lost, the candidates campaigning again
+    const secondRevoked = once(second, LeaderElectorEventKind.Revoked);
+    const secondReelected = once(second, LeaderElectorEventKind.Elected);
+    const [{ entries }] = await first.locker.list();
+    await first.locker.forceRelease(name, entries[0].id);
+    await Promise.all([secondRevoked, secondReelected]);
+    expect(second.isLeader).toBe(true);
+
+    await second.resign();
+    expect(second.isLeader).toBe(false);
+    await expect(first.getLeader()).resolves.toBeUndefined();
+  });
+
+  it('requires the garbage collector', () => {
+    const adapter = new InMemoryAdapter();
+
+    expect(
+      () => new LeaderElector(new Locker(adapter), 'my-leadership'),
+    ).toThrow(LockerError);
+  });
+
+  it('stops campaigning once the locker closes', async () => {
+    const adapter = new InMemoryAdapter();
+    const name = 'my-leadership';
+
+    const leader = new LeaderElector(new Locker(adapter, { gc: 100 }), name);
+    const leaderElected = once(leader, LeaderElectorEventKind.Elected);
+    leader.campaign();
+    await leaderElected;
+
+    const unhandledRejections: unknown[] = [];
+    const onUnhandledRejection = (reason: unknown) =>
+      unhandledRejections.push(reason);
+    process.on('unhandledRejection', onUnhandledRejection);
+
+    try {
+      const followers = [
+        new Locker(adapter, { gc: 100 }),
+        new Locker(adapter, { gc: 100 }),
+      ].map((locker) => new LeaderElector(locker, name, { retryDelay: 10 }));
+
+      const errors: Error[] = [];
+      followers[0].on(LeaderElectorEventKind.Error, (error) =>
+        errors.push(error),
+      );
+
+      followers.forEach((follower) => follower.campaign());
+      await sleep(20);
+
+      await Promise.all(followers.map((follower) => follower.locker.close()));
+      await sleep(50);
+
+      await Promise.all(followers.map((follower) => follower.resign()));
+      expect(errors).toEqual([]);
+      expect(unhandledRejections).toEqual([]);
+    } finally {
+      process.off('unhandledRejection', onUnhandledRejection);
+    }
+
+    await leader.resign();
+  });
+});
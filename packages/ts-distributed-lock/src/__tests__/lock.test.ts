@@ -1,5 +1,6 @@
-import { WorkflowLockError } from '../error';
-import { Lock, LockStatus, LockType } from '../lock';
+import os from 'os';
+import { LockError, WorkflowLockError } from '../error';
+import { formatLockOwner, Lock, LockStatus, LockType } from '../lock';
 
 describe('Lock', () => {
   it('has a proper worflow for acquiring locks', () => {
@@ -105,4 +106,202 @@ describe('Lock', () => {
       WorkflowLockError,
     );
   });
+
+  it('has a signal aborted once settled as rejected, released or lost', () => {
+    const rejectedLock = new Lock('my-lock-name', LockType.Writer);
+    expect(rejectedLock.signal.aborted).toBe(false);
+    rejectedLock.status = LockStatus.Rejected;
+    expect(rejectedLock.signal.aborted).toBe(true);
+
+    const releasedLock = new Lock('my-lock-name', LockType.Writer);
+    releasedLock.status = LockStatus.Acquired;
+    expect(releasedLock.signal.aborted).toBe(false);
+    releasedLock.status = LockStatus.Releasing;
+    expect(releasedLock.signal.aborted).toBe(true);
+
+    // Or lost
+    const lostLock = new Lock('my-lock-name', LockType.Writer);
+    lostLock.status = LockStatus.Acquired;
+    lostLock.status = LockStatus.Lost;
+    expect(lostLock.isLost()).toBe(true);
+    expect(lostLock.signal.aborted).toBe(true);
+
+    // Which cannot be changed
+    expect(() => (lostLock.status = LockStatus.Acquired)).toThrowError(
+      WorkflowLockError,
+    );
+    expect(() => (lostLock.status = LockStatus.Released)).toThrowError(
+      WorkflowLockError,
+    );
+
+    // Or once its own signal is aborted
+    const abortController = new AbortController();
+    const abortedLock = new Lock('my-lock-name', LockType.Writer, {
+      signal: abortController.signal,
+    });
+    expect(abortedLock.signal.aborted).toBe(false);
+    abortController.abort();
+    expect(abortedLock.signal.aborted).toBe(true);
+
+    // While acquiring only
+    const otherAbortController = new AbortController();
+    const acquiredLock = new Lock('my-lock-name', LockType.Writer, {
+      signal: otherAbortController.signal,
+    });
+    acquiredLock.status = LockStatus.Acquired;
+    otherAbortController.abort();
+    expect(acquiredLock.signal.aborted).toBe(false);
+  });
+
+  it('waits according to its strategy', async () => {
+    const waitStrategy = jest.fn(() => 1);
+    const lock = new Lock('my-lock-name', LockType.Writer, { waitStrategy });
+
+    await expect(lock.wait()).resolves.toBe(true);
+    await expect(lock.wait()).resolves.toBe(true);
+    expect(waitStrategy).toHaveBeenNthCalledWith(
+      1,
+      1,
+      expect.any(Number),
+      undefined,
+    );
+    expect(waitStrategy).toHaveBeenNthCalledWith(2, 2, expect.any(Number), 1);
+
+    waitStrategy.mockReturnValueOnce(-1);
+    await expect(lock.wait()).rejects.toThrowError(LockError);
+  });
+
+  it('has a fencing token set once, while acquiring', () => {
+    const lock = new Lock('my-lock-name', LockType.Writer);
+    expect(lock.fencingToken).toBeUndefined();
+
+    // Has to be an integer greater than 0
+    expect(() => (lock.fencingToken = 0)).toThrowError(LockError);
+    expect(() => (lock.fencingToken = 1.5)).toThrowError(LockError);
+
+    lock.fencingToken = 1;
+    expect(lock.fencingToken).toBe(1);
+
+    // Cannot be changed
+    expect(() => (lock.fencingToken = 2)).toThrowError(LockError);
+
+    lock.status = LockStatus.Acquired;
+    expect(lock.fencingToken).toBe(1);
+  });
+
+  it('has a number of permits only as a semaphore lock', () => {
+    expect(
+      new Lock('my-lock-name', LockType.Writer, { permits: 3 }).permits,
+    ).toBeUndefined();
+    expect(
+      new Lock('my-lock-name', LockType.Semaphore, { permits: 3 }).permits,
+    ).toBe(3);
+
+    // Has to be an integer greater than 0
+    for (const permits of [undefined, 0, 1.5]) {
+      expect(
+        () => new Lock('my-lock-name', LockType.Semaphore, { permits }).permits,
+      ).toThrowError(LockError);
+    }
+  });
+
+  it('has an owner', () => {
+    expect(new Lock('my-lock-name', LockType.Writer).owner).toEqual({
+      hostname: os.hostname(),
+      pid: process.pid,
+    });
+
+    const owner = new Lock('my-lock-name', LockType.Writer, {
+      lockerId: 'my-locker',
+      payload: { jobId: 42 },
+    }).owner;
+    expect(owner).toEqual({
+      hostname: os.hostname(),
+      pid: process.pid,
+      lockerId: 'my-locker',
+      payload: { jobId: 42 },
+    });
+    expect(formatLockOwner(owner)).toBe(
+      `host "${os.hostname()}", pid ${
+        process.pid
+      }, locker "my-locker", payload {"jobId":42}`,
+    );
+  });
+
+  it('expires once held for its "maxHoldDuration"', () => {
+    expect(
+      () => new Lock('my-lock-name', LockType.Writer, { maxHoldDuration: 0 }),
+    ).toThrowError(LockError);
+
+    const lock = new Lock('my-lock-name', LockType.Writer, {
+      maxHoldDuration: 1000,
+    });
+    expect(lock.expiresAt).toBeUndefined();
+
+    lock.status = LockStatus.Acquired;
+    expect(lock.expiresAt).toEqual(new Date(lock.settledAt!.getTime() + 1000));
+
+    expect(new Lock('my-lock-name', LockType.Writer).expiresAt).toBeUndefined();
+  });
+
+  it('counts the nested scopes holding it', () => {
+    const lock = new Lock('my-lock-name', LockType.Writer);
+    expect(lock.holdCount).toBe(0);
+    expect(() => lock.hold()).toThrowError(LockError);
+
+    lock.status = LockStatus.Acquired;
+    expect(lock.holdCount).toBe(1);
+    expect(() => lock.unhold()).toThrowError(LockError);
+
+    expect(lock.hold()).toBe(2);
+    expect(lock.hold()).toBe(3);
+    expect(lock.unhold()).toBe(2);
+    expect(lock.unhold()).toBe(1);
+
+    lock.status = LockStatus.Released;
+    expect(lock.holdCount).toBe(0);
+  });
+
+  it('has a proper worflow for upgraded and downgraded locks', () => {
+    const lock = new Lock('my-lock-name', LockType.Reader);
+
+    // Has to be acquired first
+    expect(() => (lock.status = LockStatus.Upgrading)).toThrowError(
+      WorkflowLockError,
+    );
+    expect(() => (lock.type = LockType.Writer)).toThrowError(WorkflowLockError);
+
+    lock.status = LockStatus.Acquired;
+    const settledAt = lock.settledAt;
+
+    // Has to be upgrading
+    expect(() => (lock.type = LockType.Writer)).toThrowError(WorkflowLockError);
+
+    lock.status = LockStatus.Upgrading;
+    expect(lock.isUpgrading()).toBe(true);
+
+    // Can only set as "Acquired"
+    expect(() => (lock.status = LockStatus.Releasing)).toThrowError(
+      WorkflowLockError,
+    );
+    expect(() => (lock.status = LockStatus.Upgrading)).toThrowError(
+      WorkflowLockError,
+    );
+
+    lock.type = LockType.Writer;
+    lock.status = LockStatus.Acquired;
+    expect(lock.type).toBe(LockType.Writer);
+    expect(lock.settledAt).toBe(settledAt);
+
+    // A "writer" lock cannot be upgraded
+    expect(() => (lock.status = LockStatus.Upgrading)).toThrowError(
+      WorkflowLockError,
+    );
+
+    lock.type = LockType.Reader;
+    expect(lock.type).toBe(LockType.Reader);
+
+    // A "reader" lock cannot be downgraded
+    expect(() => (lock.type = LockType.Reader)).toThrowError(WorkflowLockError);
+  });
 });
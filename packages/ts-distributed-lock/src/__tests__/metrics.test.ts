@@ -0,0 +1,84 @@
+import { InMemoryAdapter } from '../adapter/in-memory-adapter';
+import { AcquireTimeoutLockError } from '../error';
+import { Locker } from '../locker';
+import { LockerMetrics } from '../metrics';
+
+describe('LockerMetrics', () => {
+  it('renders the metrics of the locker', async () => {
+    const locker = new Locker(new InMemoryAdapter());
+    const metrics = new LockerMetrics(locker, { buckets: [0.1, 1] });
+
+    const firstLock = await locker.lockAsReader('my-lock-name');
+    const secondLock = await locker.lockAsReader('my-lock-name');
+    await expect(
+      locker.lockAsWriter('my-lock-name', { acquireTimeout: 50 }),
+    ).rejects.toThrow(AcquireTimeoutLockError);
+    await locker.release(firstLock);
+
+    const exposition = metrics.render();
+
+    expect(exposition).toContain(
+      '# TYPE locker_acquired_locks_total counter\nlocker_acquired_locks_total{name="my-lock-name",type="READER"} 2\n',
+    );
+    expect(exposition).toContain(
+      'locker_rejected_locks_total{name="my-lock-name",type="WRITER"} 1\n',
+    );
+    expect(exposition).toContain(
+      'locker_released_locks_total{name="my-lock-name",type="READER"} 1\n',
+    );
+    expect(exposition).toContain(
+      '# TYPE locker_lock_wait_duration_seconds histogram\nlocker_lock_wait_duration_seconds_bucket{name="my-lock-name",type="READER",le="0.1"} 2\nlocker_lock_wait_duration_seconds_bucket{name="my-lock-name",type="READER",le="1"} 2\nlocker_lock_wait_duration_seconds_bucket{name="my-lock-name",type="READER",le="+Inf"} 2\n',
+    );
+    expect(exposition).toContain(
+      'locker_lock_wait_duration_seconds_count{name="my-lock-name",type="WRITER"} 1\n',
+    );
+    expect(exposition).toContain(
+      'locker_lock_hold_duration_seconds_count{name="my-lock-name",type="READER"} 1\n',
+    );
+    expect(exposition).toContain(
+      'locker_held_locks{name="my-lock-name",type="READER"} 1\n',
+    );
+    expect(exposition.endsWith('\n')).toBe(true);
+
+    // The gauges are reset, not removed
+    await locker.release(secondLock);
+    expect(metrics.render()).toContain(
+      'locker_held_locks{name="my-lock-name",type="READER"} 0\n',
+    );
+
+    // No more metrics are collected
+    metrics.disconnect();
+    await locker.release(await locker.lockAsWriter('my-lock-name'));
+    expect(metrics.render()).not.toContain(
+      'locker_acquired_locks_total{name="my-lock-name",type="WRITER"}',
+    );
+  });
+
+  it('limits the cardinality of the "name" label', async () => {
+    const locker = new Locker(new InMemoryAdapter());
+    const metrics = new LockerMetrics(locker, {
+      nameLabel: (name) => name.split(':')[0],
+      maxNames: 1,
+    });
+
+    await Promise.all(
+      ['article:1', 'article:2', 'section:"1"', 'section:"2"'].map(
+        async (name) => locker.release(await locker.lockAsWriter(name)),
+      ),
+    );
+
+    const exposition = metrics.render();
+
+    expect(exposition).toContain(
+      'locker_acquired_locks_total{name="article",type="WRITER"} 2\n',
+    );
+    expect(exposition).toContain(
+      'locker_acquired_locks_total{name="__other__",type="WRITER"} 2\n',
+    );
+    expect(exposition).not.toContain('section');
+
+    expect(() => new LockerMetrics(locker, { maxNames: -1 })).toThrowError(
+      TypeError,
+    );
+  });
+});
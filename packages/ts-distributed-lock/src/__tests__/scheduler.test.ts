@@ -0,0 +1,183 @@
+import { InMemoryAdapter } from '../adapter/in-memory-adapter';
+import { LockerError } from '../error';
+import { Locker, LockerEventKind } from '../locker';
+import {
+  intervalSchedule,
+  OverlapPolicy,
+  ScheduledJob,
+  ScheduledJobEventKind,
+} from '../scheduler';
+import { sleep } from '../utils';
+
+describe('ScheduledJob', () => {
+  it('runs each tick on a single instance', async () => {
+    const adapter = new InMemoryAdapter();
+    const forget = jest.spyOn(adapter, 'forget');
+    const ticks: Date[] = [];
+    const lockNames = new Set<string>();
+
+    const jobs = ['first', 'second', 'third'].map((id) => {
+      const locker = new Locker(adapter, { id });
+      locker.on(LockerEventKind.AcquiredLock, ({ name }) =>
+        lockNames.add(name),
+      );
+
+      return new ScheduledJob(
+        locker,
+        'my-job',
+        intervalSchedule(50),
+        (tick) => {
+          ticks.push(tick);
+        },
+      );
+    });
+
+    jobs.forEach((job) => job.start());
+    await sleep(280);
+    await Promise.all(jobs.map((job) => job.stop()));
+
+    expect(ticks.length).toBeGreaterThanOrEqual(4);
+    expect(new Set(ticks.map((tick) => tick.getTime())).size).toBe(
+      ticks.length,
+    );
+    ticks.forEach((tick) => expect(tick.getTime() % 50).toBe(0));
+    await expect(adapter.getLastRunAt('my-job')).resolves.toEqual(
+      ticks[ticks.length - 1],
+    );
+
+    // Each tick is claimed through a lock named after it, forgotten once claimed
+    expect(lockNames).toContain('my-job');
+    ticks.forEach((tick) => {
+      expect(lockNames).toContain(`my-job@${tick.toISOString()}`);
+      expect(forget).toHaveBeenCalledWith(`my-job@${tick.toISOString()}`);
+    });
+    await expect(adapter.list()).resolves.toEqual([]);
+  });
+
+  it('skips or queues the overlapping runs', async () => {
+    const adapter = new InMemoryAdapter();
+
+    const skipping = new ScheduledJob(
+      new Locker(adapter),
+      'my-skipping-job',
+      intervalSchedule(50),
+      () => sleep(120),
+    );
+
+    const skippedTicks: Date[] = [];
+    skipping.on(ScheduledJobEventKind.Skipped, (tick) =>
+      skippedTicks.push(tick),
+    );
+
+    const queueing = new ScheduledJob(
+      new Locker(adapter),
+      'my-queueing-job',
+      intervalSchedule(50),
+      async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await sleep(70);
+        running--;
+      },
+      { overlap: OverlapPolicy.Queue },
+    );
+
+    let running = 0;
+    let maxRunning = 0;
+    let queuedRunCount = 0;
+    queueing.on(ScheduledJobEventKind.Run, () => queuedRunCount++);
+
+    skipping.start();
+    queueing.start();
+    await sleep(300);
+    await Promise.all([skipping.stop(), queueing.stop()]);
+
+    expect(skippedTicks.length).toBeGreaterThan(0);
+    expect(maxRunning).toBe(1);
+    expect(queuedRunCount).toBeGreaterThanOrEqual(4);
+  });
+
+  it('catches up on the tick missed since the last run', async () => {
+    const adapter = new InMemoryAdapter();
+    const schedule = intervalSchedule(3_600_000);
+    const now = new Date();
+
+    await adapter.setLastRunAt('my-job', new Date(now.getTime() - 36_000_000));
+
+    const ticks: Date[] = [];
+    const job = new ScheduledJob(
+      new Locker(adapter),
+      'my-job',
+      schedule,
+      (tick) => {
+        ticks.push(tick);
+      },
+      { catchUp: true },
+    );
+
+    job.start();
+    await sleep(50);
+    await job.stop();
+
+    expect(ticks).toEqual([new Date(schedule(now).getTime() - 3_600_000)]);
+  });
+
+  it('cannot be started with an adapter not recording the last runs', () => {
+    const adapter = Object.assign(new InMemoryAdapter(), {
+      getLastRunAt: undefined,
+    });
+
+    const job = new ScheduledJob(
+      new Locker(adapter),
+      'my-job',
+      intervalSchedule(50),
+      () => {},
+      { catchUp: true },
+    );
+
+    expect(() => job.start()).toThrow(LockerError);
+  });
+
+  it('reports the errors of the task to the "error" listeners only', async () => {
+    const adapter = new InMemoryAdapter();
+    const task = () => {
+      throw new Error('task failed');
+    };
+
+    const unhandledRejections: unknown[] = [];
+    const onUnhandledRejection = (reason: unknown) =>
+      unhandledRejections.push(reason);
+    process.on('unhandledRejection', onUnhandledRejection);
+
+    try {
+      const unlistened = new ScheduledJob(
+        new Locker(adapter),
+        'my-unlistened-job',
+        intervalSchedule(50),
+        task,
+      );
+
+      const listened = new ScheduledJob(
+        new Locker(adapter),
+        'my-listened-job',
+        intervalSchedule(50),
+        task,
+      );
+
+      const errors: Error[] = [];
+      listened.on(ScheduledJobEventKind.Error, (error) => errors.push(error));
+
+      unlistened.start();
+      listened.start();
+      await sleep(180);
+      await Promise.all([unlistened.stop(), listened.stop()]);
+      await sleep(10);
+
+      expect(errors.length).toBeGreaterThanOrEqual(2);
+      errors.forEach((error) => expect(error.message).toBe('task failed'));
+      expect(unhandledRejections).toEqual([]);
+    } finally {
+      process.off('unhandledRejection', onUnhandledRejection);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { context, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { InMemoryAdapter } from '../adapter/in-memory-adapter';
+import { AcquireTimeoutLockError } from '../error';
+import { LockStatus, LockType } from '../lock';
+import { Locker } from '../locker';
+
+describe('Tracing', () => {
+  const contextManager = new AsyncLocalStorageContextManager();
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it('traces the acquisitions and the tasks', async () => {
+    const locker = new Locker(new InMemoryAdapter(), {
+      tracer: provider.getTracer('test'),
+    });
+
+    const reader = await locker.lockAsReader('my-traced-lock');
+
+    await expect(
+      locker.ensureWritingTaskConcurrency('my-traced-lock', () => 'never', {
+        acquireTimeout: 50,
+      }),
+    ).rejects.toThrow(AcquireTimeoutLockError);
+
+    await locker.release(reader);
+
+    await expect(
+      locker.ensureWritingTaskConcurrency(
+        'my-traced-lock',
+        async () => 'my-result',
+      ),
+    ).resolves.toBe('my-result');
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans.map(({ name }) => name)).toEqual([
+      'Locker.lock',
+      'Locker.lock',
+      'Locker.ensureTaskConcurrency',
+      'Locker.lock',
+      'Locker.ensureTaskConcurrency',
+    ]);
+
+    const [
+      readerSpan,
+      rejectedSpan,
+      failedTaskSpan,
+      acquiredSpan,
+      succeededTaskSpan,
+    ] = spans;
+
+    expect(readerSpan.parentSpanId).toBeUndefined();
+    expect(readerSpan.attributes).toMatchObject({
+      'lock.name': 'my-traced-lock',
+      'lock.type': LockType.Reader,
+      'lock.id': reader.id,
+      'lock.status': LockStatus.Acquired,
+      'lock.wait_attempts': 0,
+      'lock.wait_duration_ms': expect.any(Number),
+      'lock.fencing_token': reader.fencingToken,
+    });
+
+    // The acquisition is a child of the task's span
+    expect(rejectedSpan.parentSpanId).toBe(failedTaskSpan.spanContext().spanId);
+    expect(rejectedSpan.attributes).toMatchObject({
+      'lock.type': LockType.Writer,
+      'lock.status': LockStatus.Rejected,
+      'lock.rejection_reason': expect.stringContaining('50ms'),
+    });
+    expect(rejectedSpan.attributes['lock.wait_attempts']).toBeGreaterThan(0);
+    expect(rejectedSpan.status.code).toBe(SpanStatusCode.ERROR);
+    expect(failedTaskSpan.status.code).toBe(SpanStatusCode.ERROR);
+
+    expect(acquiredSpan.parentSpanId).toBe(
+      succeededTaskSpan.spanContext().spanId,
+    );
+    expect(acquiredSpan.status.code).toBe(SpanStatusCode.UNSET);
+    expect(succeededTaskSpan.attributes).toMatchObject({
+      'lock.name': 'my-traced-lock',
+      'lock.type': LockType.Writer,
+      'lock.id': acquiredSpan.attributes['lock.id'],
+      'lock.hold_duration_ms': expect.any(Number),
+    });
+  });
+});
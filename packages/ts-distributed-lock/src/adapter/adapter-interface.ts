@@ -1,4 +1,12 @@
-import { Lock, LockSet } from '../lock';
+import {
+  FairnessPolicy,
+  Lock,
+  LockId,
+  LockName,
+  LockOwner,
+  LockSet,
+  LockType,
+} from '../lock';
 
 export type AdapterLockParams = {
   lock: Lock;
@@ -34,6 +42,38 @@ export type AdapterGarbageCollectorParams = {
 export type GarbageCycle = {
   collectedCount: number;
   refreshedCount: number;
+
+  /**
+   * The ids of the given "lockSet" not found in the store, so they could not be refreshed
+   */
+  missingIds: LockId[];
+};
+
+export type AdapterQueueEntry = {
+  id: LockId;
+  type: LockType;
+
+  /**
+   * Either the lock is held, or it is waiting for the ones before it in the queue
+   */
+  holder: boolean;
+
+  enqueuedAt: Date;
+  refreshedAt: Date;
+
+  /**
+   * Optional, missing if the adapter has not recorded it
+   */
+  owner?: LockOwner;
+};
+
+export type AdapterQueue = {
+  name: LockName;
+
+  /**
+   * In the queue's order
+   */
+  entries: AdapterQueueEntry[];
 };
 
 /**
@@ -41,7 +81,22 @@ export type GarbageCycle = {
  */
 export interface AdapterInterface {
   /**
-   * Acquires the given lock
+   * Optional, the fairness policies the adapter grants the locks with, as it records their holders, default: only "FIFO"
+   */
+  readonly fairnessPolicies?: ReadonlyArray<FairnessPolicy>;
+
+  /**
+   * Optional, whether the adapter places the waiting locks according to their "priority", default: false
+   */
+  readonly prioritized?: boolean;
+
+  /**
+   * Optional, whether the adapter drops the locks held for longer than their "maxHoldDuration" from the store, so a frozen process cannot keep them, default: false
+   */
+  readonly expiring?: boolean;
+
+  /**
+   * Acquires the given lock and hands out its "fencingToken", strictly monotonically increasing per lock's name
    */
   lock: (lock: Lock) => Promise<void>;
 
@@ -51,7 +106,59 @@ export interface AdapterInterface {
   release: (lock: Lock) => Promise<void>;
 
   /**
-   * Release all the locks
+   * Optional, acquires the given lock only if it can be done immediately, otherwise the lock is left "ACQUIRING" and is not enqueued at all
+   */
+  tryLock?: (lock: Lock) => Promise<void>;
+
+  /**
+   * Optional, acquires the given "semaphore" lock once it is among the first "permits" locks of its queue
+   */
+  lockSemaphore?: (lock: Lock) => Promise<void>;
+
+  /**
+   * Optional, upgrades the given acquired "reader" lock to a "writer" one, once the other "reader" locks are released
+   *
+   * Throws a "DeadlockLockError" if another lock of the same name is already being upgraded
+   */
+  upgrade?: (lock: Lock) => Promise<void>;
+
+  /**
+   * Optional, downgrades the given acquired "writer" lock to a "reader" one, keeping its position in the queue
+   */
+  downgrade?: (lock: Lock) => Promise<void>;
+
+  /**
+   * Optional, returns the queue of the given lock's name
+   */
+  inspect?: (name: LockName) => Promise<AdapterQueue>;
+
+  /**
+   * Optional, returns the non-empty queues
+   */
+  list?: () => Promise<AdapterQueue[]>;
+
+  /**
+   * Optional, removes the given entry from the queue of the given lock's name, whoever owns it, returns "false" if it was not in the queue
+   */
+  forceRelease?: (name: LockName, id: LockId) => Promise<boolean>;
+
+  /**
+   * Optional, returns the last tick the given scheduled job has run, if any
+   */
+  getLastRunAt?: (job: string) => Promise<Date | undefined>;
+
+  /**
+   * Optional, records the last tick the given scheduled job has run, unless a later one is already recorded
+   */
+  setLastRunAt?: (job: string, at: Date) => Promise<void>;
+
+  /**
+   * Optional, drops what is stored for the given lock's name, its "fencingToken" included, unless its queue is not empty: the "fencingToken"s of the name start over, so it is only for the names not locked anymore
+   */
+  forget?: (name: LockName) => Promise<void>;
+
+  /**
+   * Release all the locks, the "fencingToken"s keep increasing
    */
   releaseAll: () => Promise<void>;
 
@@ -64,4 +171,9 @@ export interface AdapterInterface {
    * Optional, the adapter may needs to be setup before use
    */
   setup?: (params: AdapterSetupParams) => Promise<void>;
+
+  /**
+   * Optional, closes the resources the adapter has opened, as its connections, it is not used anymore
+   */
+  close?: () => Promise<void>;
 }
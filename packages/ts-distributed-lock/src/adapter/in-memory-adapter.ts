@@ -1,9 +1,23 @@
-import { LockerError, LockError } from '../error';
-import { Lock, LockName, LockStatus, LockType } from '../lock';
-import { sleep } from '../utils';
+import { DeadlockLockError, LockError } from '../error';
+import {
+  getHolders,
+  getIncompatibleTypes,
+  getQueuePosition,
+  PriorityEntry,
+} from '../fairness';
+import {
+  areLocksCompatible,
+  FairnessPolicy,
+  Lock,
+  LockId,
+  LockName,
+  LockStatus,
+  LockType,
+} from '../lock';
 import {
   AdapterGarbageCollectorParams,
   AdapterInterface,
+  AdapterQueue,
 } from './adapter-interface';
 
 /**
@@ -11,6 +25,43 @@ import {
  */
 export class InMemoryAdapter implements AdapterInterface {
   private storage = new Map<LockName, Map<Lock, Date>>();
+  private fencingTokens = new Map<LockName, number>();
+  private holders = new WeakSet<Lock>();
+  private lastRuns = new Map<string, Date>();
+
+  public readonly fairnessPolicies = Object.values(FairnessPolicy);
+  public readonly prioritized = true;
+  public readonly expiring = true;
+
+  /**
+   * A lock being upgraded already acts as a "writer" lock for the ones following it
+   */
+  protected isWriting(lock: Lock): boolean {
+    return lock.type === LockType.Writer || lock.isUpgrading();
+  }
+
+  protected toEntry(lock: Lock): PriorityEntry {
+    return {
+      type: lock.type,
+      held: this.holders.has(lock),
+      upgrading: lock.isUpgrading(),
+      permits: lock.permits,
+      priority: lock.priority,
+      enqueuedAt: lock.createdAt,
+    };
+  }
+
+  /**
+   * Drops the locks held for longer than their "maxHoldDuration", even if their owner has not released them
+   */
+  protected dropExpiredLocks(queue: Map<Lock, Date>, at: Date = new Date()) {
+    queue.forEach((_at, lock) => {
+      const expiresAt = lock.expiresAt;
+      if (expiresAt && expiresAt <= at) {
+        queue.delete(lock);
+      }
+    });
+  }
 
   public async setup() {
     // Do nothing
@@ -33,25 +84,22 @@ export class InMemoryAdapter implements AdapterInterface {
       }),
     );
 
+    const missingIds: LockId[] = [];
+
     lockSet.forEach((lock) => {
       const queue = this.storage.get(lock.name);
       if (queue && queue.has(lock)) {
         queue.set(lock, at);
         refreshedCount++;
+      } else {
+        missingIds.push(lock.id);
       }
     });
 
-    if (refreshedCount !== lockSet.size) {
-      throw new LockerError(
-        `The garbage collecting cycle missed ${
-          lockSet.size - refreshedCount
-        } lock(s)`,
-      );
-    }
-
     return {
       collectedCount,
       refreshedCount,
+      missingIds,
     };
   }
 
@@ -62,32 +110,81 @@ export class InMemoryAdapter implements AdapterInterface {
       this.storage.set(lock.name, queue);
     }
 
-    queue.set(lock, new Date());
+    if (
+      ![...queue.keys()].every((lockInSet) =>
+        areLocksCompatible(lockInSet, lock),
+      )
+    ) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" cannot share its name with the locks of another type or number of permits`,
+      );
+    }
+
+    // The lock is placed ahead of the waiting locks of lower priority
+    const entries = [...queue.entries()];
+    entries.splice(
+      getQueuePosition(
+        entries.map(([lockInSet]) => this.toEntry(lockInSet)),
+        lock.priority,
+        lock.priorityAging,
+      ),
+      0,
+      [lock, new Date()],
+    );
+
+    queue.clear();
+    for (const [lockInSet, at] of entries) {
+      queue.set(lockInSet, at);
+    }
 
     do {
-      if (lock.type === LockType.Writer) {
-        // A "write" lock is acquired when it's the first in the queue
-        if ([...queue.keys()].indexOf(lock) === 0) {
-          lock.status = LockStatus.Acquired;
-        }
-      } else {
-        // A "read" lock is acquired when it's not preceded by a "write" lock in the queue
-        if (
-          [...queue.keys()].find(
-            (lockInSet) =>
-              lockInSet === lock || lockInSet.type === LockType.Writer,
-          ) === lock
-        ) {
-          lock.status = LockStatus.Acquired;
-        }
+      this.dropExpiredLocks(queue);
+
+      // The locks granted according to the lock's policy are recorded, so they acquire it on their next try
+      const locks = [...queue.keys()];
+      getHolders(
+        locks.map((lockInSet) => this.toEntry(lockInSet)),
+        lock.fairness,
+      ).forEach((holder, index) => holder && this.holders.add(locks[index]));
+
+      if (this.holders.has(lock)) {
+        const fencingToken = (this.fencingTokens.get(lock.name) ?? 0) + 1;
+
+        lock.fencingToken = fencingToken;
+        this.fencingTokens.set(lock.name, fencingToken);
+        lock.status = LockStatus.Acquired;
       }
-    } while (lock.isAcquiring() && (await sleep(lock.pullInterval)));
+    } while (lock.isAcquiring() && (await lock.wait()));
 
     if (!lock.isAcquired()) {
       queue.delete(lock);
     }
   }
 
+  public async lockSemaphore(lock: Lock) {
+    return this.lock(lock);
+  }
+
+  public async tryLock(lock: Lock) {
+    const queue = this.storage.get(lock.name);
+    if (queue) {
+      this.dropExpiredLocks(queue);
+    }
+
+    // The lock is enqueued only if it is acquired immediately, being compatible with all the locks of the queue
+    const incompatibleTypes = getIncompatibleTypes(lock.type);
+    if (
+      !queue ||
+      ![...queue.keys()].some(
+        (lockInSet) =>
+          lockInSet.isUpgrading() || incompatibleTypes.includes(lockInSet.type),
+      )
+    ) {
+      await this.lock(lock);
+    }
+  }
+
   public async release(lock: Lock) {
     if (!this.storage.get(lock.name)?.delete(lock)) {
       throw new LockError(
@@ -98,4 +195,127 @@ export class InMemoryAdapter implements AdapterInterface {
 
     lock.status = LockStatus.Released;
   }
+
+  public async inspect(name: LockName): Promise<AdapterQueue> {
+    return {
+      name,
+      entries: [...(this.storage.get(name) || [])].map(
+        ([lock, refreshedAt]) => ({
+          id: lock.id,
+          type: lock.type,
+          holder: lock.isAcquired() || lock.isUpgrading(),
+          enqueuedAt: lock.createdAt,
+          refreshedAt,
+          owner: lock.owner,
+        }),
+      ),
+    };
+  }
+
+  public async list(): Promise<AdapterQueue[]> {
+    return Promise.all(
+      [...this.storage]
+        .filter(([, queue]) => queue.size > 0)
+        .map(([name]) => name)
+        .sort()
+        .map((name) => this.inspect(name)),
+    );
+  }
+
+  public async forceRelease(name: LockName, id: LockId): Promise<boolean> {
+    const queue = this.storage.get(name);
+    const lock = queue && [...queue.keys()].find((lock) => lock.id === id);
+
+    return lock ? queue!.delete(lock) : false;
+  }
+
+  public async forget(name: LockName): Promise<void> {
+    if (!this.storage.get(name)?.size) {
+      this.storage.delete(name);
+      this.fencingTokens.delete(name);
+    }
+  }
+
+  public async getLastRunAt(job: string): Promise<Date | undefined> {
+    return this.lastRuns.get(job);
+  }
+
+  public async setLastRunAt(job: string, at: Date): Promise<void> {
+    const lastRunAt = this.lastRuns.get(job);
+    if (!lastRunAt || lastRunAt < at) {
+      this.lastRuns.set(job, at);
+    }
+  }
+
+  public async upgrade(lock: Lock) {
+    const queue = this.storage.get(lock.name);
+    if (!queue?.has(lock)) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" is not in the queue anymore`,
+      );
+    }
+
+    if (
+      [...queue.keys()].some(
+        (lockInSet) => lockInSet !== lock && lockInSet.isUpgrading(),
+      )
+    ) {
+      throw new DeadlockLockError(
+        lock,
+        `The lock "${lock}" cannot be upgraded as another lock "${lock.name}" is already being upgraded`,
+      );
+    }
+
+    // The lock is moved right after the "reader" locks currently acquired
+    const entries = [...queue.entries()].filter(
+      ([lockInSet]) => lockInSet !== lock,
+    );
+    const index = entries.findIndex(([lockInSet]) => this.isWriting(lockInSet));
+    entries.splice(index === -1 ? entries.length : index, 0, [
+      lock,
+      queue.get(lock)!,
+    ]);
+
+    queue.clear();
+    entries.forEach(([lockInSet, at]) => queue.set(lockInSet, at));
+
+    const isUpgraded = (): boolean => {
+      if (!queue.has(lock)) {
+        throw new LockError(
+          lock,
+          `The lock "${lock}" is not in the queue anymore`,
+        );
+      }
+
+      // An upgraded lock is acquired when it's the first in the queue and no other lock holds
+      if (
+        [...queue.keys()].every((lockInSet, index) =>
+          index === 0 ? lockInSet === lock : !this.holders.has(lockInSet),
+        )
+      ) {
+        lock.type = LockType.Writer;
+        lock.status = LockStatus.Acquired;
+
+        return true;
+      }
+
+      return false;
+    };
+
+    while (lock.isUpgrading() && !isUpgraded() && (await lock.wait())) {
+      // Nothing to do here
+    }
+  }
+
+  public async downgrade(lock: Lock) {
+    if (!this.storage.get(lock.name)?.has(lock)) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" is not in the queue anymore`,
+      );
+    }
+
+    lock.type = LockType.Reader;
+  }
 }
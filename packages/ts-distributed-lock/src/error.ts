@@ -1,4 +1,6 @@
+export * from './error/aborted-lock-error';
 export * from './error/acquire-timeout-lock-error';
+export * from './error/deadlock-lock-error';
 export * from './error/lock-error';
 export * from './error/locker-error';
 export * from './error/workflow-lock-error';
@@ -0,0 +1,8 @@
+import { Lock } from '../lock';
+import { LockError } from './lock-error';
+
+export class AbortedLockError extends LockError {
+  public constructor(lock: Lock) {
+    super(lock, `The lock "${lock}" has been aborted while acquiring`);
+  }
+}
@@ -1,11 +1,47 @@
-import { Lock } from '../lock';
+import { AdapterQueueEntry } from '../adapter';
+import { formatLockOwner, Lock } from '../lock';
 import { LockError } from './lock-error';
 
+/**
+ * The number of blockers detailed in the message
+ */
+const maxDetailedBlockers = 3;
+
+const formatBlocker = ({
+  id,
+  type,
+  owner,
+  enqueuedAt,
+}: AdapterQueueEntry): string =>
+  [
+    `the "${type}" lock "${id}"`,
+    ...(owner ? [`of ${formatLockOwner(owner)}`] : []),
+    `enqueued at ${enqueuedAt.toISOString()}`,
+  ].join(' ');
+
 export class AcquireTimeoutLockError extends LockError {
-  public constructor(lock: Lock, acquireTimeout: number) {
+  /**
+   * @param blockers The entries holding the lock's name at the timeout, when the adapter can inspect its queue
+   */
+  public constructor(
+    lock: Lock,
+    acquireTimeout: number,
+    readonly blockers: ReadonlyArray<AdapterQueueEntry> = [],
+  ) {
     super(
       lock,
-      `The lock "${lock}" has not been acquired before the timeout: ${acquireTimeout}ms`,
+      `The lock "${lock}" has not been acquired before the timeout: ${acquireTimeout}ms${
+        blockers.length
+          ? `, blocked by ${blockers
+              .slice(0, maxDetailedBlockers)
+              .map(formatBlocker)
+              .join('; ')}${
+              blockers.length > maxDetailedBlockers
+                ? ` and ${blockers.length - maxDetailedBlockers} more`
+                : ''
+            }`
+          : ''
+      }`,
     );
   }
 }
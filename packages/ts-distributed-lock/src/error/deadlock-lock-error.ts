@@ -0,0 +1,3 @@
+import { LockError } from './lock-error';
+
+export class DeadlockLockError extends LockError {}
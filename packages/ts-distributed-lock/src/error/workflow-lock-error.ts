@@ -1,8 +1,8 @@
-import { Lock, LockStatus } from '../lock';
+import { Lock, LockStatus, LockType } from '../lock';
 import { LockError } from './lock-error';
 
 export class WorkflowLockError extends LockError {
-  public constructor(lock: Lock, protected to: LockStatus) {
+  public constructor(lock: Lock, protected to: LockStatus | LockType) {
     super(lock, `The lock "${lock}" cannot be set to ${to}`);
   }
 }
@@ -0,0 +1,177 @@
+import { FairnessPolicy, LockType } from './lock';
+
+export type FairnessEntry = {
+  type: LockType;
+
+  /**
+   * Optional, whether the lock has already been granted, default: false
+   */
+  held?: boolean;
+
+  /**
+   * Optional, a lock being upgraded already acts as a "writer" lock for the other ones, default: false
+   */
+  upgrading?: boolean;
+
+  /**
+   * Required for a "semaphore" lock, the number of its holders allowed at once
+   */
+  permits?: number;
+};
+
+/**
+ * The types each type is compatible with, a lock being upgraded acting as a "writer" one
+ */
+const compatibleTypes: Record<LockType, ReadonlyArray<LockType>> = {
+  [LockType.IntentionShared]: [
+    LockType.IntentionShared,
+    LockType.IntentionExclusive,
+    LockType.Reader,
+  ],
+  [LockType.IntentionExclusive]: [
+    LockType.IntentionShared,
+    LockType.IntentionExclusive,
+  ],
+  [LockType.Reader]: [LockType.IntentionShared, LockType.Reader],
+  [LockType.Writer]: [],
+  [LockType.Semaphore]: [LockType.Semaphore],
+};
+
+/**
+ * The types of the locks that cannot hold at the same time as a lock of the given type
+ */
+export const getIncompatibleTypes = (type: LockType): LockType[] =>
+  Object.values(LockType).filter(
+    (other) => !compatibleTypes[type].includes(other),
+  );
+
+const getMode = ({ type, upgrading }: FairnessEntry): LockType =>
+  upgrading ? LockType.Writer : type;
+
+const isCompatible = (type: LockType, types: Set<LockType>): boolean =>
+  [...types].every((other) => compatibleTypes[type].includes(other));
+
+/**
+ * Tells, for each entry of the queue, whether it holds the lock once the waiting entries allowed by the policy have been granted
+ *
+ * Whatever the policy, an entry is granted only if its type is compatible with the ones of the holders, the intention locks being granted in their order of arrival
+ */
+export function getHolders(
+  queue: ReadonlyArray<FairnessEntry>,
+  policy: FairnessPolicy = FairnessPolicy.Fifo,
+): boolean[] {
+  // A "semaphore" lock is held when it's among the first "permits" ones in the queue
+  if (queue[0]?.type === LockType.Semaphore) {
+    return queue.map(
+      ({ held, permits }, index) => held === true || index < permits!,
+    );
+  }
+
+  const holders = queue.map(({ held }) => held === true);
+  const heldTypes = new Set(
+    queue.filter((_entry, index) => holders[index]).map(getMode),
+  );
+
+  // The phase the queue was in, before any entry has been granted
+  const isReadingPhase =
+    heldTypes.size > 0 && isCompatible(LockType.Reader, heldTypes);
+  const types = new Set(queue.map(getMode));
+  const precedingTypes = new Set<LockType>();
+
+  queue.forEach((entry, index) => {
+    const type = getMode(entry);
+
+    if (!holders[index] && isCompatible(type, heldTypes)) {
+      if (type === LockType.Writer) {
+        switch (policy) {
+          case FairnessPolicy.ReaderPreference:
+            // It waits for all the "reader" locks, then for the "writer" ones arrived before it
+            holders[index] =
+              !types.has(LockType.Reader) &&
+              !precedingTypes.has(LockType.Writer);
+            break;
+
+          case FairnessPolicy.WriterPreference:
+            // It overtakes the waiting "reader" locks
+            holders[index] = !precedingTypes.has(LockType.Writer);
+            break;
+
+          default:
+            // It's granted when it's the first in the queue
+            holders[index] = precedingTypes.size === 0;
+        }
+      } else if (type === LockType.Reader) {
+        switch (policy) {
+          case FairnessPolicy.ReaderPreference:
+            // It overtakes the waiting "writer" locks
+            holders[index] = true;
+            break;
+
+          case FairnessPolicy.WriterPreference:
+            // It waits for all the "writer" locks
+            holders[index] = isCompatible(type, types);
+            break;
+
+          case FairnessPolicy.PhaseFair:
+            // It joins the current reading phase unless a "writer" lock waits before it, or all the "reader" locks start a new one
+            holders[index] = isReadingPhase
+              ? isCompatible(type, precedingTypes)
+              : compatibleTypes[type].includes(getMode(queue[0]));
+            break;
+
+          default:
+            // It's granted when it's not preceded by a "writer" lock
+            holders[index] = isCompatible(type, precedingTypes);
+        }
+      } else {
+        // An intention lock is granted when it's compatible with all the locks arrived before it
+        holders[index] = isCompatible(type, precedingTypes);
+      }
+
+      if (holders[index]) {
+        heldTypes.add(type);
+      }
+    }
+
+    precedingTypes.add(type);
+  });
+
+  return holders;
+}
+
+export type PriorityEntry = FairnessEntry & {
+  /**
+   * Optional, default: 0
+   */
+  priority?: number;
+
+  enqueuedAt: Date;
+};
+
+/**
+ * Tells where a new lock of the given priority is inserted into the queue: ahead of the waiting entries of lower priority, never ahead of the holders
+ *
+ * The priority of a waiting entry is raised by 1 every "priorityAging"ms it has waited, so it is not starved by the entries of higher priority
+ */
+export function getQueuePosition(
+  queue: ReadonlyArray<PriorityEntry>,
+  priority: number,
+  priorityAging: number,
+  at: Date = new Date(),
+): number {
+  const holders = getHolders(queue);
+  const getAgedPriority = ({ priority, enqueuedAt }: PriorityEntry): number =>
+    (priority || 0) +
+    Math.floor((at.getTime() - enqueuedAt.getTime()) / priorityAging);
+
+  let position = queue.length;
+  while (
+    position > 0 &&
+    !holders[position - 1] &&
+    getAgedPriority(queue[position - 1]) < priority
+  ) {
+    position--;
+  }
+
+  return position;
+}
@@ -0,0 +1,69 @@
+import { EventEmitter } from 'events';
+
+declare global {
+  /**
+   * The "EventTarget" API of "AbortSignal", available since Node.js 15.4, is missing from "@types/node"
+   */
+  interface AbortSignal {
+    addEventListener(
+      type: 'abort',
+      listener: () => void,
+      options?: { once?: boolean },
+    ): void;
+
+    removeEventListener(type: 'abort', listener: () => void): void;
+  }
+}
+
+/**
+ * Node.js 14 only provides "AbortController" behind the "--experimental-abortcontroller" flag, this is the subset of it we use
+ */
+if (typeof globalThis.AbortController === 'undefined') {
+  class AbortSignalPolyfill {
+    #emitter = new EventEmitter().setMaxListeners(0);
+    #aborted: boolean = false;
+
+    public onabort: (() => void) | null = null;
+
+    public get aborted(): boolean {
+      return this.#aborted;
+    }
+
+    public addEventListener(
+      type: 'abort',
+      listener: () => void,
+      options?: { once?: boolean },
+    ): void {
+      options?.once
+        ? this.#emitter.once(type, listener)
+        : this.#emitter.on(type, listener);
+    }
+
+    public removeEventListener(type: 'abort', listener: () => void): void {
+      this.#emitter.removeListener(type, listener);
+    }
+
+    public dispatchAbort(): void {
+      if (!this.#aborted) {
+        this.#aborted = true;
+        this.onabort?.();
+        this.#emitter.emit('abort');
+      }
+    }
+  }
+
+  class AbortControllerPolyfill {
+    public readonly signal = new AbortSignalPolyfill();
+
+    public abort(): void {
+      this.signal.dispatchAbort();
+    }
+  }
+
+  Object.assign(globalThis, {
+    AbortSignal: AbortSignalPolyfill,
+    AbortController: AbortControllerPolyfill,
+  });
+}
+
+export {};
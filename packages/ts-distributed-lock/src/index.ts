@@ -1,9 +1,15 @@
+import './globals';
 import { Locker } from './locker';
 
 export * from './adapter';
 export * from './error';
+export * from './fairness';
+export * from './leader-elector';
 export * from './lock';
 export * from './locker';
+export * from './metrics';
+export * from './scheduler';
+export { getDefaultTracer } from './tracing';
 export * from './utils';
 export * from './__tests__/adapter-test';
 
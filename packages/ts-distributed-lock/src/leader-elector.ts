@@ -0,0 +1,146 @@
+import { EventEmitter } from 'events';
+import { LockerError } from './error';
+import { AcquiredLock, LockName, LockOwner, LockPayload } from './lock';
+import { Locker } from './locker';
+import { sleep } from './utils';
+
+export enum LeaderElectorEventKind {
+  Elected = 'elected',
+  Revoked = 'revoked',
+  Error = 'error',
+}
+
+export type LeaderElectorEventMap = {
+  [LeaderElectorEventKind.Elected]: AcquiredLock;
+  [LeaderElectorEventKind.Revoked]: AcquiredLock;
+  [LeaderElectorEventKind.Error]: Error;
+};
+
+export type LeaderElectorOptions = Partial<{
+  /**
+   * Optional, a free-form JSON payload recorded in the owner of the leadership, default: none
+   */
+  payload: LockPayload;
+
+  /**
+   * Optional, the delay, in ms, before campaigning again after an error, default: 1000
+   */
+  retryDelay: number;
+}>;
+
+/**
+ * Elects a single leader among the candidates campaigning for the same name, through a "writer" lock: the followers wait in its queue and take over as soon as the leader resigns or its lock is lost
+ *
+ * The locker's garbage collector is required, as a leader learns it has lost its lock only when the collector finds it missing
+ */
+export class LeaderElector extends EventEmitter {
+  #lock: AcquiredLock | undefined;
+  #abortController: AbortController | undefined;
+  #campaign: Promise<void> | undefined;
+
+  public constructor(
+    readonly locker: Locker,
+    readonly name: LockName,
+    readonly options: LeaderElectorOptions = {},
+  ) {
+    super();
+
+    if (!locker.gcInterval) {
+      throw new LockerError(
+        `The leader election requires the locker's garbage collector, through its "gc" option`,
+      );
+    }
+  }
+
+  public get isLeader(): boolean {
+    return this.#lock !== undefined;
+  }
+
+  /**
+   * Starts campaigning for the leadership, in the background, until "resign" is called or the locker closes: an "elected" event is emitted once this candidate leads, a "revoked" one once it does not anymore
+   */
+  public campaign(): void {
+    if (!this.#abortController) {
+      this.#abortController = new AbortController();
+      this.#campaign = this.run(this.#abortController.signal).catch(() => {
+        // Do nothing, the errors of the campaign are emitted as "error" events
+      });
+    }
+  }
+
+  /**
+   * Without any listener, the EventEmitter would throw the "error" event
+   */
+  protected emitError(error: Error): void {
+    if (this.listenerCount(LeaderElectorEventKind.Error) > 0) {
+      this.emit(LeaderElectorEventKind.Error, error);
+    }
+  }
+
+  /**
+   * Campaigns until "resign" is called or the locker starts closing, as it would reject all the next acquisitions
+   */
+  protected async run(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted && !this.locker.isClosing) {
+      try {
+        const lock = (await this.locker.lockAsWriter(this.name, {
+          signal,
+          payload: this.options.payload,
+        })) as AcquiredLock;
+
+        this.#lock = lock;
+        this.emit(LeaderElectorEventKind.Elected, lock);
+
+        // It leads until its lock is released, lost or expired
+        await new Promise<void>((resolve) =>
+          lock.signal.aborted
+            ? resolve()
+            : lock.signal.addEventListener('abort', () => resolve(), {
+                once: true,
+              }),
+        );
+
+        this.#lock = undefined;
+        this.emit(LeaderElectorEventKind.Revoked, lock);
+      } catch (error) {
+        if (!signal.aborted && !this.locker.isClosing) {
+          this.emitError(error);
+
+          await sleep(this.options.retryDelay ?? 1000, signal);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stops campaigning and releases the leadership, if any, so a follower takes over
+   */
+  public async resign(): Promise<void> {
+    const lock = this.#lock;
+
+    this.#abortController?.abort();
+    this.#abortController = undefined;
+
+    try {
+      if (lock) {
+        await this.locker.release(lock);
+      }
+    } finally {
+      await this.#campaign;
+      this.#campaign = undefined;
+    }
+  }
+
+  /**
+   * Returns the owner of the current leader, if any, the adapter has to support inspecting the locks
+   */
+  public async getLeader(): Promise<LockOwner | undefined> {
+    if (this.#lock) {
+      return this.#lock.owner;
+    }
+
+    const { entries } = await this.locker.inspect(this.name);
+
+    return entries.find(({ holder }) => holder)?.owner;
+  }
+}
@@ -1,8 +1,13 @@
 import { Memoize } from '@prismamedia/ts-memoize';
 import crypto from 'crypto';
+import os from 'os';
 import { LockError, WorkflowLockError } from './error';
+import './globals';
+import { fixedWaitStrategy, WaitStrategy } from './lock/wait-strategy';
+import { sleep } from './utils';
 
 export * from './lock/set';
+export * from './lock/wait-strategy';
 
 export type LockName = string;
 
@@ -11,14 +16,87 @@ export type LockId = string;
 export enum LockType {
   Writer = 'WRITER',
   Reader = 'READER',
+  Semaphore = 'SEMAPHORE',
+  /**
+   * Taken on the ancestors of a hierarchical "reader" lock
+   */
+  IntentionShared = 'INTENTION_SHARED',
+  /**
+   * Taken on the ancestors of a hierarchical "writer" lock
+   */
+  IntentionExclusive = 'INTENTION_EXCLUSIVE',
+}
+
+export enum FairnessPolicy {
+  /**
+   * The locks are granted in their order of arrival, a "reader" lock waits behind any earlier "writer" lock
+   */
+  Fifo = 'FIFO',
+
+  /**
+   * A "reader" lock is granted as long as no "writer" lock holds, a "writer" lock waits for all the "reader" ones
+   */
+  ReaderPreference = 'READER_PREFERENCE',
+
+  /**
+   * A "reader" lock waits for all the "writer" ones, holding or waiting
+   */
+  WriterPreference = 'WRITER_PREFERENCE',
+
+  /**
+   * The "reader" and "writer" phases alternate, so a lock waits for at most one phase of the other type
+   */
+  PhaseFair = 'PHASE_FAIR',
+}
+
+/**
+ * A free-form JSON payload, as the id of the job holding the lock
+ */
+export type LockPayload = { [key: string]: unknown };
+
+/**
+ * Who owns a lock, recorded by the adapters alongside its queue entry
+ */
+export type LockOwner = {
+  hostname: string;
+  pid: number;
+
+  /**
+   * The "id" option of the locker, if any
+   */
+  lockerId?: string;
+
+  /**
+   * The "payload" option of the lock, if any
+   */
+  payload?: LockPayload;
+};
+
+/**
+ * Renders the given owner, as: host "web-1", pid 42, locker "api-1", payload {"jobId":7}
+ */
+export function formatLockOwner({
+  hostname,
+  pid,
+  lockerId,
+  payload,
+}: LockOwner): string {
+  return [
+    `host "${hostname}"`,
+    `pid ${pid}`,
+    ...(lockerId ? [`locker "${lockerId}"`] : []),
+    ...(payload ? [`payload ${JSON.stringify(payload)}`] : []),
+  ].join(', ');
 }
 
 export enum LockStatus {
   Acquiring = 'ACQUIRING',
   Acquired = 'ACQUIRED',
+  Upgrading = 'UPGRADING',
   Releasing = 'RELEASING',
   Released = 'RELEASED',
   Rejected = 'REJECTED',
+  Lost = 'LOST',
 }
 
 export type LockOptions = {
@@ -28,11 +106,63 @@ export type LockOptions = {
   acquireTimeout: number | null;
 
   /**
-   * Optional, in case the lock is not acquired, a new try will occur every "pullInterval"ms, default: 25
+   * Optional, in case the lock is not acquired, a new try will occur after the delay returned by this strategy, default: fixedWaitStrategy(25)
+   */
+  waitStrategy: WaitStrategy | null;
+
+  /**
+   * Optional, the lock is dequeued and an "AbortedLockError" is thrown if this signal is aborted while acquiring, default: none
+   */
+  signal: AbortSignal | null;
+
+  /**
+   * Required for a "semaphore" lock, the number of its holders allowed at once
+   */
+  permits: number | null;
+
+  /**
+   * Optional, how the "reader" & "writer" locks waiting in the same queue are granted, default: the locker's one, "FIFO" if none
+   */
+  fairness: FairnessPolicy | null;
+
+  /**
+   * Optional, the lock is placed ahead of the waiting locks of lower priority, without preempting the holders, default: 0
    */
-  pullInterval: number | null;
+  priority: number | null;
+
+  /**
+   * Optional, every "priorityAging"ms waiting, the priority of the lock is raised by 1 against the newly enqueued locks, so it is not starved, default: 60000
+   */
+  priorityAging: number | null;
+
+  /**
+   * Optional, the id of the locker, recorded in the lock's owner, set by the locker, default: none
+   */
+  lockerId: string | null;
+
+  /**
+   * Optional, a free-form JSON payload recorded in the lock's owner, as the id of the job holding it, default: none
+   */
+  payload: LockPayload | null;
+
+  /**
+   * Optional, the acquired lock is force-released and its signal aborted once held for "maxHoldDuration"ms, even if the garbage collector keeps refreshing it, default: none
+   */
+  maxHoldDuration: number | null;
 };
 
+/**
+ * The "semaphore" locks share their name only with the "semaphore" locks of the same "permits"
+ */
+export function areLocksCompatible(
+  a: { type: LockType; permits?: number },
+  b: { type: LockType; permits?: number },
+): boolean {
+  return a.type === LockType.Semaphore || b.type === LockType.Semaphore
+    ? a.type === b.type && a.permits === b.permits
+    : true;
+}
+
 export interface SettledLock<
   TStatus extends LockStatus.Acquired | LockStatus.Rejected,
 > extends Lock {
@@ -42,16 +172,25 @@ export interface SettledLock<
 }
 
 export interface AcquiredLock extends SettledLock<LockStatus.Acquired> {
+  fencingToken: number;
   reason: never;
 }
 
 export interface RejectedLock extends SettledLock<LockStatus.Rejected> {}
 
+export interface LostLock extends Lock {
+  settledAt: Date;
+  settledIn: number;
+  fencingToken: number;
+  status: LockStatus.Lost;
+}
+
 export interface ReleasedLock extends Lock {
   settledAt: Date;
   settledIn: number;
   releasedAt: Date;
   acquiredFor: number;
+  fencingToken: number;
   status: LockStatus.Released;
   reason: never;
 }
@@ -65,6 +204,12 @@ export class Lock {
   #settledIn?: number;
   #releasedAt?: Date;
   #acquiredFor?: number;
+  #fencingToken?: number;
+  #abortController: AbortController;
+  #waitingSince: Date;
+  #waitAttempt: number = 0;
+  #waitDelay?: number;
+  #holdCount: number = 0;
   reason?: LockError;
 
   public constructor(
@@ -76,6 +221,47 @@ export class Lock {
     this.#type = type;
     this.#status = LockStatus.Acquiring;
     this.#createdAt = new Date();
+    this.#waitingSince = this.#createdAt;
+    this.#abortController = new AbortController();
+
+    if (options.signal?.aborted) {
+      this.#abortController.abort();
+    } else {
+      options.signal?.addEventListener('abort', this.#abort, { once: true });
+    }
+
+    if (type === LockType.Semaphore) {
+      const permits = options.permits;
+      if (
+        typeof permits !== 'number' ||
+        !Number.isSafeInteger(permits) ||
+        permits <= 0
+      ) {
+        throw new LockError(
+          this,
+          `The lock "${this}"'s "permits" option has to be an integer greater than 0`,
+        );
+      }
+    }
+
+    if (options.maxHoldDuration != null && !(options.maxHoldDuration > 0)) {
+      throw new LockError(
+        this,
+        `The lock "${this}"'s "maxHoldDuration" option has to be greater than 0`,
+      );
+    }
+  }
+
+  #abort = (): void => {
+    this.options.signal?.removeEventListener('abort', this.#abort);
+    this.#abortController.abort();
+  };
+
+  /**
+   * Aborted as soon as the lock is rejected, released, lost or its "signal" option is aborted while acquiring, so the waits are interrupted
+   */
+  public get signal(): AbortSignal {
+    return this.#abortController.signal;
   }
 
   public get id(): LockId {
@@ -86,6 +272,26 @@ export class Lock {
     return this.#type;
   }
 
+  /**
+   * An acquired lock changes of type through either an "upgrade" or a "downgrade"
+   */
+  public set type(type: LockType) {
+    if (
+      !(
+        (this.#status === LockStatus.Upgrading &&
+          this.#type === LockType.Reader &&
+          type === LockType.Writer) ||
+        (this.#status === LockStatus.Acquired &&
+          this.#type === LockType.Writer &&
+          type === LockType.Reader)
+      )
+    ) {
+      throw new WorkflowLockError(this, type);
+    }
+
+    this.#type = type;
+  }
+
   public get status(): LockStatus {
     return this.#status;
   }
@@ -119,6 +325,78 @@ export class Lock {
     return this.#acquiredFor;
   }
 
+  /**
+   * Strictly monotonically increasing number, per lock's name, handed out by the adapter when this lock is acquired
+   */
+  public get fencingToken(): number | undefined {
+    return this.#fencingToken;
+  }
+
+  public set fencingToken(fencingToken: number | undefined) {
+    if (
+      this.#status !== LockStatus.Acquiring ||
+      this.#fencingToken !== undefined
+    ) {
+      throw new LockError(
+        this,
+        `The lock "${this}"'s "fencingToken" can only be set once, while acquiring`,
+      );
+    } else if (
+      typeof fencingToken !== 'number' ||
+      !Number.isSafeInteger(fencingToken) ||
+      fencingToken <= 0
+    ) {
+      throw new LockError(
+        this,
+        `The lock "${this}"'s "fencingToken" has to be an integer greater than 0`,
+      );
+    }
+
+    this.#fencingToken = fencingToken;
+  }
+
+  /**
+   * Number of waits in the queue, since the lock has been created or its upgrade began
+   */
+  public get waitAttempts(): number {
+    return this.#waitAttempt;
+  }
+
+  /**
+   * Number of nested scopes holding the acquired lock, it is released once the outermost one exits
+   */
+  public get holdCount(): number {
+    return this.#holdCount;
+  }
+
+  /**
+   * Holds the acquired lock once more, for a nested scope, and returns the number of scopes holding it
+   */
+  public hold(): number {
+    if (this.#status !== LockStatus.Acquired) {
+      throw new LockError(
+        this,
+        `The lock "${this}" has to be acquired to be held again`,
+      );
+    }
+
+    return ++this.#holdCount;
+  }
+
+  /**
+   * Stops holding the lock for a nested scope, and returns the number of scopes still holding it
+   */
+  public unhold(): number {
+    if (this.#holdCount <= 1) {
+      throw new LockError(
+        this,
+        `The lock "${this}" is not held by any nested scope`,
+      );
+    }
+
+    return --this.#holdCount;
+  }
+
   public toString(): string {
     return `${this.name}/${this.#id} (${this.#type} - ${this.#status})`;
   }
@@ -130,18 +408,32 @@ export class Lock {
           (status === LockStatus.Acquired || status === LockStatus.Rejected)) ||
         (this.#status === LockStatus.Acquired &&
           (status === LockStatus.Releasing ||
-            status === LockStatus.Released)) ||
+            status === LockStatus.Released ||
+            status === LockStatus.Lost ||
+            (status === LockStatus.Upgrading &&
+              this.#type === LockType.Reader))) ||
+        (this.#status === LockStatus.Upgrading &&
+          (status === LockStatus.Acquired || status === LockStatus.Lost)) ||
         (this.#status === LockStatus.Releasing &&
           status === LockStatus.Released)
       )
     ) {
       throw new WorkflowLockError(this, status);
-    } else if (
-      status === LockStatus.Acquired ||
-      status === LockStatus.Rejected
-    ) {
+    } else if (status === LockStatus.Upgrading) {
+      // The upgrade waits from scratch
+      this.#waitingSince = new Date();
+      this.#waitAttempt = 0;
+      this.#waitDelay = undefined;
+    } else if (this.#status === LockStatus.Acquiring) {
       this.#settledAt = new Date();
       this.#settledIn = this.#settledAt.getTime() - this.#createdAt.getTime();
+
+      if (status === LockStatus.Acquired) {
+        this.#holdCount = 1;
+      }
+
+      // The "signal" option only aborts the acquisition, a signal shared by many locks does not keep their listener
+      this.options.signal?.removeEventListener('abort', this.#abort);
     } else if (status === LockStatus.Released) {
       if (!this.#settledAt) {
         throw new LockError(
@@ -153,9 +445,19 @@ export class Lock {
       this.#releasedAt = new Date();
       this.#acquiredFor =
         this.#releasedAt.getTime() - this.#settledAt.getTime();
+      this.#holdCount = 0;
     }
 
     this.#status = status;
+
+    if (
+      status === LockStatus.Rejected ||
+      status === LockStatus.Releasing ||
+      status === LockStatus.Released ||
+      status === LockStatus.Lost
+    ) {
+      this.#abort();
+    }
   }
 
   public isSettled(): boolean {
@@ -170,6 +472,10 @@ export class Lock {
     return this.#status === LockStatus.Acquired;
   }
 
+  public isUpgrading(): boolean {
+    return this.#status === LockStatus.Upgrading;
+  }
+
   public isReleasing(): boolean {
     return this.#status === LockStatus.Releasing;
   }
@@ -182,6 +488,10 @@ export class Lock {
     return this.#status === LockStatus.Rejected;
   }
 
+  public isLost(): this is LostLock {
+    return this.#status === LockStatus.Lost;
+  }
+
   public reject(reason: LockError): void {
     this.reason = reason;
     this.status = LockStatus.Rejected;
@@ -203,19 +513,76 @@ export class Lock {
     return undefined;
   }
 
+  public get maxHoldDuration(): number | undefined {
+    return this.options.maxHoldDuration ?? undefined;
+  }
+
+  /**
+   * When the acquired lock expires, according to its "maxHoldDuration"
+   */
+  public get expiresAt(): Date | undefined {
+    return this.#settledAt &&
+      this.#status !== LockStatus.Rejected &&
+      this.maxHoldDuration
+      ? new Date(this.#settledAt.getTime() + this.maxHoldDuration)
+      : undefined;
+  }
+
+  public get permits(): number | undefined {
+    return this.#type === LockType.Semaphore
+      ? this.options.permits!
+      : undefined;
+  }
+
   @Memoize()
-  public get pullInterval(): number {
-    if (this.options.pullInterval != null) {
-      if (this.options.pullInterval <= 0) {
-        throw new LockError(
-          this,
-          `The lock "${this}"'s "pullInterval" option has to be greater than 0`,
-        );
-      }
+  public get fairness(): FairnessPolicy {
+    return this.options.fairness || FairnessPolicy.Fifo;
+  }
+
+  @Memoize()
+  public get priority(): number {
+    return this.options.priority || 0;
+  }
+
+  @Memoize()
+  public get priorityAging(): number {
+    return Math.max(1, this.options.priorityAging || 60000);
+  }
 
-      return this.options.pullInterval;
+  @Memoize()
+  public get owner(): LockOwner {
+    return {
+      hostname: os.hostname(),
+      pid: process.pid,
+      ...(this.options.lockerId && { lockerId: this.options.lockerId }),
+      ...(this.options.payload && { payload: this.options.payload }),
+    };
+  }
+
+  @Memoize()
+  public get waitStrategy(): WaitStrategy {
+    return this.options.waitStrategy ?? fixedWaitStrategy();
+  }
+
+  /**
+   * Waits before the next try, according to the "waitStrategy", interrupted if the lock is rejected while acquiring
+   */
+  public async wait(): Promise<true> {
+    const delay = this.waitStrategy(
+      ++this.#waitAttempt,
+      Date.now() - this.#waitingSince.getTime(),
+      this.#waitDelay,
+    );
+
+    if (!(delay >= 0) || !Number.isFinite(delay)) {
+      throw new LockError(
+        this,
+        `The lock "${this}"'s "waitStrategy" has returned an invalid delay: ${delay}`,
+      );
     }
 
-    return 25;
+    this.#waitDelay = delay;
+
+    return sleep(delay, this.isAcquiring() ? this.signal : undefined);
   }
 }
@@ -0,0 +1,55 @@
+import {
+  decorrelatedJitterWaitStrategy,
+  exponentialWaitStrategy,
+  fixedWaitStrategy,
+} from '../wait-strategy';
+
+describe('WaitStrategy', () => {
+  it('waits a fixed delay', () => {
+    expect(() => fixedWaitStrategy(0)).toThrowError(TypeError);
+
+    const waitStrategy = fixedWaitStrategy(10);
+    expect(waitStrategy(1, 0, undefined)).toBe(10);
+    expect(waitStrategy(100, 1000, 10)).toBe(10);
+  });
+
+  it('waits an exponential delay, up to "max"', () => {
+    expect(() => exponentialWaitStrategy({ initial: 0 })).toThrowError(
+      TypeError,
+    );
+    expect(() => exponentialWaitStrategy({ factor: 0.5 })).toThrowError(
+      TypeError,
+    );
+    expect(() =>
+      exponentialWaitStrategy({ initial: 100, max: 50 }),
+    ).toThrowError(TypeError);
+
+    const waitStrategy = exponentialWaitStrategy({
+      initial: 10,
+      factor: 2,
+      max: 100,
+    });
+    expect(
+      [1, 2, 3, 4, 5].map((attempt) => waitStrategy(attempt, 0, undefined)),
+    ).toEqual([10, 20, 40, 80, 100]);
+  });
+
+  it('waits a decorrelated jittered delay, up to "max"', () => {
+    expect(() => decorrelatedJitterWaitStrategy({ base: 0 })).toThrowError(
+      TypeError,
+    );
+
+    const waitStrategy = decorrelatedJitterWaitStrategy({ base: 10, max: 100 });
+
+    let previousDelay: number | undefined;
+    for (let attempt = 1; attempt <= 100; attempt++) {
+      const delay = waitStrategy(attempt, 0, previousDelay);
+      expect(delay).toBeGreaterThanOrEqual(10);
+      expect(delay).toBeLessThanOrEqual(
+        Math.min(100, (previousDelay ?? 10) * 3),
+      );
+
+      previousDelay = delay;
+    }
+  });
+});
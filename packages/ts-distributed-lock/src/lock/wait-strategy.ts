@@ -0,0 +1,59 @@
+/**
+ * Returns the delay, in ms, before the next try to acquire the lock
+ *
+ * @param attempt The number of the next try, starting at 1
+ * @param elapsed The time, in ms, elapsed since the lock started to wait
+ * @param previousDelay The delay returned for the previous try, if any
+ */
+export type WaitStrategy = (
+  attempt: number,
+  elapsed: number,
+  previousDelay: number | undefined,
+) => number;
+
+/**
+ * Waits the same "delay"ms before each try
+ */
+export function fixedWaitStrategy(delay: number = 25): WaitStrategy {
+  if (!(delay > 0)) {
+    throw new TypeError(`The "delay" has to be greater than 0`);
+  }
+
+  return () => delay;
+}
+
+/**
+ * Waits "initial"ms, multiplied by "factor" after each try, up to "max"ms
+ */
+export function exponentialWaitStrategy({
+  initial = 25,
+  factor = 2,
+  max = 1000,
+}: { initial?: number; factor?: number; max?: number } = {}): WaitStrategy {
+  if (!(initial > 0) || !(factor >= 1) || !(max >= initial)) {
+    throw new TypeError(
+      `The "initial" has to be greater than 0, the "factor" at least 1 and the "max" at least "initial"`,
+    );
+  }
+
+  return (attempt) => Math.min(max, initial * factor ** (attempt - 1));
+}
+
+/**
+ * Waits a random delay between "base"ms and 3 times the previous one, up to "max"ms, so the waiting processes do not synchronize
+ *
+ * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export function decorrelatedJitterWaitStrategy({
+  base = 25,
+  max = 1000,
+}: { base?: number; max?: number } = {}): WaitStrategy {
+  if (!(base > 0) || !(max >= base)) {
+    throw new TypeError(
+      `The "base" has to be greater than 0 and the "max" at least "base"`,
+    );
+  }
+
+  return (_attempt, _elapsed, previousDelay = base) =>
+    Math.min(max, base + Math.random() * (previousDelay * 3 - base));
+}
@@ -1,24 +1,54 @@
+import { Tracer } from '@opentelemetry/api';
 import { Memoize } from '@prismamedia/ts-memoize';
+import { AsyncLocalStorage } from 'async_hooks';
 import { EventEmitter } from 'events';
 import { setInterval } from 'timers';
-import { AdapterInterface, GarbageCycle } from './adapter';
-import { AcquireTimeoutLockError, LockError } from './error';
+import {
+  AdapterInterface,
+  AdapterQueue,
+  AdapterQueueEntry,
+  GarbageCycle,
+} from './adapter';
+import {
+  AbortedLockError,
+  AcquireTimeoutLockError,
+  DeadlockLockError,
+  LockError,
+  LockerError,
+} from './error';
 import {
   AcquiredLock,
+  FairnessPolicy,
   Lock,
+  LockId,
   LockName,
   LockOptions,
   LockSet,
   LockStatus,
   LockType,
+  LostLock,
   RejectedLock,
   ReleasedLock,
 } from './lock';
+import {
+  endAcquisitionSpan,
+  getDefaultTracer,
+  startAcquisitionSpan,
+  withActiveSpan,
+} from './tracing';
+import { sleep } from './utils';
+
+/**
+ * The lookup of the blockers of a timed-out lock delays its rejection by at most this duration, in ms
+ */
+const MAX_BLOCKERS_LOOKUP_DURATION = 100;
 
 export enum LockerEventKind {
   RejectedLock = 'rejected_lock',
   AcquiredLock = 'acquired_lock',
   ReleasedLock = 'released_lock',
+  LostLock = 'lost_lock',
+  ExpiredLock = 'expired_lock',
   GarbageCycle = 'garbage_cycle',
   Error = 'error',
 }
@@ -29,15 +59,65 @@ export type LockerEventMap = {
   [LockerEventKind.RejectedLock]: RejectedLock;
   [LockerEventKind.AcquiredLock]: AcquiredLock;
   [LockerEventKind.ReleasedLock]: ReleasedLock;
+  [LockerEventKind.LostLock]: LostLock;
+  [LockerEventKind.ExpiredLock]: Lock;
   [LockerEventKind.GarbageCycle]: LockerGarbageCycle;
   [LockerEventKind.Error]: Error;
 };
 
+export type LockerQueueEntry = AdapterQueueEntry & {
+  /**
+   * The lock, if it is owned by this locker
+   */
+  lock?: Lock;
+};
+
+export type LockerQueue = {
+  name: LockName;
+  entries: LockerQueueEntry[];
+};
+
+export type LockRequest = {
+  name: LockName;
+  as: LockType;
+};
+
+export type SemaphoreOptions = Partial<LockOptions> & { permits: number };
+
+export type LockerCloseOptions = Partial<{
+  /**
+   * Optional, the running tasks are waited for at most "timeout"ms, then their locks are released anyway, default: none, until they settle
+   *
+   * Their signal is aborted as soon as the locker starts closing, but without "timeout", a task ignoring it keeps the locker from ever being closed
+   */
+  timeout: number;
+}>;
+
 export type TLockerOptions = Partial<{
   /**
    * Optional, every "gc"ms, a garbage collector cleans the "lost" locks, default: 60000
    */
   gc: number;
+
+  /**
+   * Optional, the OpenTelemetry tracer of the acquisitions and the tasks, default: the one of the globally registered provider, a no-op one if none
+   */
+  tracer: Tracer;
+
+  /**
+   * Optional, the fairness policy of the locks, unless they have their own, default: "FIFO"
+   */
+  fairness: FairnessPolicy;
+
+  /**
+   * Optional, the separator of the hierarchical lock names, as "/", so a "reader" or "writer" lock first takes the intention locks of its ancestors, default: none
+   */
+  separator: string;
+
+  /**
+   * Optional, the id of the locker, as the name of the pod or the instance, recorded in the owner of its locks, default: none
+   */
+  id: string;
 }>;
 
 export class Locker extends EventEmitter {
@@ -46,6 +126,17 @@ export class Locker extends EventEmitter {
   #gcInterval: number | undefined;
   #gcIntervalId: ReturnType<typeof setInterval> | undefined;
   #gcIsLocked: boolean = false;
+  #tracer: Tracer;
+  #fairness: FairnessPolicy | undefined;
+  #heldLocks = new AsyncLocalStorage<ReadonlyMap<LockName, Lock>>();
+  #separator: string | undefined;
+  #intentionLocks = new WeakMap<Lock, ReadonlyArray<AcquiredLock>>();
+  #id: string | undefined;
+  #isClosing: boolean = false;
+  #closing: Promise<void> | undefined;
+  #closeListeners = new Set<() => void>();
+  #tasks = new Set<Promise<unknown>>();
+  #expirationTimeouts = new WeakMap<Lock, ReturnType<typeof setTimeout>>();
 
   public constructor(
     readonly adapter: AdapterInterface,
@@ -57,6 +148,27 @@ export class Locker extends EventEmitter {
       adapter.gc && typeof options?.gc === 'number'
         ? Math.max(1, options.gc || 60000)
         : undefined;
+
+    this.#tracer = options?.tracer ?? getDefaultTracer();
+
+    this.assertFairnessSupport(options?.fairness);
+    this.#fairness = options?.fairness;
+    this.#separator = options?.separator || undefined;
+    this.#id = options?.id || undefined;
+  }
+
+  protected assertFairnessSupport(
+    fairness: FairnessPolicy | null | undefined,
+  ): void {
+    if (
+      fairness &&
+      fairness !== FairnessPolicy.Fifo &&
+      !this.adapter.fairnessPolicies?.includes(fairness)
+    ) {
+      throw new LockerError(
+        `The adapter does not support the "${fairness}" fairness policy`,
+      );
+    }
   }
 
   public async gc(): Promise<LockerGarbageCycle | undefined> {
@@ -66,6 +178,11 @@ export class Locker extends EventEmitter {
       const at = new Date();
       const staleAt = new Date(at.getTime() - this.#gcInterval * 3);
 
+      // Only the locks held before the cycle are in the store for sure, the others may not have been enqueued yet
+      const heldLocks = [...this.lockSet].filter(
+        (lock) => lock.isAcquired() || lock.isUpgrading(),
+      );
+
       const cycle = await this.adapter.gc({
         lockSet: this.lockSet,
         gcInterval: this.#gcInterval,
@@ -73,6 +190,21 @@ export class Locker extends EventEmitter {
         staleAt,
       });
 
+      const missingIds = new Set(cycle.missingIds);
+      for (const lock of heldLocks) {
+        if (
+          missingIds.has(lock.id) &&
+          (lock.isAcquired() || lock.isUpgrading())
+        ) {
+          lock.status = LockStatus.Lost;
+          this.lockSet.delete(lock);
+
+          if (lock.isLost()) {
+            this.emit(LockerEventKind.LostLock, lock);
+          }
+        }
+      }
+
       return {
         ...cycle,
         tookInMs: Math.round(Number(process.hrtime.bigint() - start) / 1000000),
@@ -133,32 +265,191 @@ export class Locker extends EventEmitter {
     }
   }
 
+  protected withOwnedLocks({ name, entries }: AdapterQueue): LockerQueue {
+    const lockSet = this.lockSet.filterByName(name);
+
+    return {
+      name,
+      entries: entries.map((entry) => {
+        const lock = [...lockSet].find(({ id }) => id === entry.id);
+
+        return lock ? { ...entry, lock } : entry;
+      }),
+    };
+  }
+
+  /**
+   * Returns the entries holding the given lock's name, if the adapter can inspect its queue quickly enough, to tell who blocks it
+   */
+  protected async getBlockers(lock: Lock): Promise<AdapterQueueEntry[]> {
+    if (!this.adapter.inspect) {
+      return [];
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const { entries } = await Promise.race([
+        this.adapter.inspect(lock.name),
+        new Promise<AdapterQueue>((resolve) => {
+          timeoutId = setTimeout(
+            () => resolve({ name: lock.name, entries: [] }),
+            MAX_BLOCKERS_LOOKUP_DURATION,
+          );
+        }),
+      ]);
+
+      return entries.filter(({ id, holder }) => holder && id !== lock.id);
+    } catch (error) {
+      return [];
+    } finally {
+      timeoutId && clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Returns the queue of the given lock's name, who holds and who waits
+   */
+  public async inspect(name: LockName): Promise<LockerQueue> {
+    if (!this.adapter.inspect) {
+      throw new LockerError(`The adapter does not support inspecting locks`);
+    }
+
+    return this.withOwnedLocks(await this.adapter.inspect(name));
+  }
+
+  /**
+   * Returns the non-empty queues
+   */
+  public async list(): Promise<LockerQueue[]> {
+    if (!this.adapter.list) {
+      throw new LockerError(`The adapter does not support listing locks`);
+    }
+
+    return (await this.adapter.list()).map((queue) =>
+      this.withOwnedLocks(queue),
+    );
+  }
+
+  /**
+   * Releases the given entry of the queue, whoever owns it, as an operator would do for a stuck lock, returns "false" if it was not in the queue
+   */
+  public async forceRelease(name: LockName, id: LockId): Promise<boolean> {
+    if (!this.adapter.forceRelease) {
+      throw new LockerError(
+        `The adapter does not support force-releasing locks`,
+      );
+    }
+
+    return this.adapter.forceRelease(name, id);
+  }
+
   public async releaseAll(): Promise<void> {
     await this.adapter.releaseAll();
     this.lockSet.clear();
   }
 
   public async release(lock: Lock): Promise<void> {
-    if (lock.status === LockStatus.Releasing || !this.lockSet.has(lock)) {
-      // Do nothing, it's already releasing or released
+    if (lock.status === LockStatus.Releasing) {
+      // Do nothing, it's already releasing
 
       return;
-    } else if (lock.status === LockStatus.Released) {
-      this.lockSet.delete(lock);
+    } else if (lock.holdCount > 1 && this.lockSet.has(lock)) {
+      // It's still held by an outer scope
+      lock.unhold();
 
       return;
     }
 
-    lock.status = LockStatus.Releasing;
+    const expirationTimeout = this.#expirationTimeouts.get(lock);
+    if (expirationTimeout) {
+      clearTimeout(expirationTimeout);
+      this.#expirationTimeouts.delete(lock);
+    }
 
     try {
-      await this.adapter.release(lock);
+      if (!this.lockSet.has(lock)) {
+        // Do nothing, it's already released
 
-      if (lock.isReleased()) {
-        this.emit(LockerEventKind.ReleasedLock, lock);
+        return;
+      } else if (lock.status === LockStatus.Released) {
+        this.lockSet.delete(lock);
+
+        return;
+      }
+
+      lock.status = LockStatus.Releasing;
+
+      try {
+        await this.adapter.release(lock);
+
+        if (lock.isReleased()) {
+          this.emit(LockerEventKind.ReleasedLock, lock);
+        }
+      } finally {
+        this.lockSet.delete(lock);
       }
     } finally {
-      this.lockSet.delete(lock);
+      const intentionLocks = this.#intentionLocks.get(lock);
+      if (intentionLocks) {
+        this.#intentionLocks.delete(lock);
+
+        await this.releaseIntentionLocks(intentionLocks);
+      }
+    }
+  }
+
+  /**
+   * Force-releases the acquired lock once held for its "maxHoldDuration"
+   */
+  protected scheduleExpiration(lock: AcquiredLock): void {
+    const expiresAt = lock.expiresAt;
+    if (expiresAt) {
+      this.#expirationTimeouts.set(
+        lock,
+        setTimeout(
+          () => this.expire(lock),
+          Math.max(0, expiresAt.getTime() - Date.now()),
+        ),
+      );
+    }
+  }
+
+  protected async expire(lock: Lock): Promise<void> {
+    this.#expirationTimeouts.delete(lock);
+
+    if (lock.status !== LockStatus.Acquired || !this.lockSet.has(lock)) {
+      return;
+    }
+
+    // The nested scopes holding it are not waited for
+    while (lock.holdCount > 1) {
+      lock.unhold();
+    }
+
+    try {
+      await this.release(lock);
+    } catch (error) {
+      if (error instanceof LockError && lock.isReleasing()) {
+        // It has already been dropped from the store, as the waiting locks drop the expired ones
+        lock.status = LockStatus.Released;
+        this.emit(LockerEventKind.ReleasedLock, lock);
+      } else if (this.listenerCount(LockerEventKind.Error) > 0) {
+        this.emit(LockerEventKind.Error, error);
+      }
+    }
+
+    this.emit(LockerEventKind.ExpiredLock, lock);
+  }
+
+  /**
+   * Releases the intention locks of the ancestors, from the closest one
+   */
+  protected async releaseIntentionLocks(
+    intentionLocks: ReadonlyArray<Lock>,
+  ): Promise<void> {
+    for (const intentionLock of [...intentionLocks].reverse()) {
+      await this.release(intentionLock);
     }
   }
 
@@ -166,28 +457,380 @@ export class Locker extends EventEmitter {
     await Promise.all([...locks].map((lock) => this.release(lock)));
   }
 
+  /**
+   * Returns the lock of the given name held by the current task, or the one of its closest ancestor as it covers its descendants along with their intention locks, held once more, instead of queueing behind itself
+   */
+  protected reenter(name: LockName, as: LockType): AcquiredLock | undefined {
+    const heldLocks = this.#heldLocks.getStore();
+    if (!heldLocks) {
+      return undefined;
+    }
+
+    const lock = heldLocks.get(name);
+    if (lock?.isAcquired()) {
+      // A "writer" lock also covers the reading
+      if (
+        lock.type !== as &&
+        !(lock.type === LockType.Writer && as === LockType.Reader)
+      ) {
+        throw new DeadlockLockError(
+          lock,
+          `The lock "${name}" cannot be acquired as "${as}" by the task holding it as "${lock.type}", as it would wait for itself`,
+        );
+      }
+
+      lock.hold();
+
+      return lock;
+    }
+
+    if (as !== LockType.Reader && as !== LockType.Writer) {
+      return undefined;
+    }
+
+    for (const ancestorName of this.getAncestorNames(name).reverse()) {
+      const ancestorLock = heldLocks.get(ancestorName);
+      if (
+        ancestorLock?.isAcquired() &&
+        (ancestorLock.type === LockType.Reader ||
+          ancestorLock.type === LockType.Writer)
+      ) {
+        // Its intention lock would wait for the "reader" lock of the ancestor
+        if (ancestorLock.type === LockType.Reader && as === LockType.Writer) {
+          throw new DeadlockLockError(
+            ancestorLock,
+            `The lock "${name}" cannot be acquired as "${as}" by the task holding its ancestor "${ancestorName}" as "${ancestorLock.type}", as it would wait for itself`,
+          );
+        }
+
+        ancestorLock.hold();
+
+        return ancestorLock;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Runs the given task with the given locks held, so they are re-entered by the nested tasks, the locker waiting for it while closing
+   *
+   * The task receives a signal aborted as soon as one of the locks' signal is, the given one is or the locker starts closing
+   */
+  protected async runWithHeldLocks<TResult>(
+    locks: Iterable<Lock>,
+    task: (signal: AbortSignal) => TResult | Promise<TResult>,
+    signal?: AbortSignal | null,
+  ): Promise<TResult> {
+    const heldLocks = new Map(this.#heldLocks.getStore() ?? []);
+    const signals: AbortSignal[] = signal ? [signal] : [];
+    for (const lock of locks) {
+      heldLocks.set(lock.name, lock);
+      signals.push(lock.signal);
+    }
+
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+
+    signals.forEach((signal) =>
+      signal.aborted
+        ? onAbort()
+        : signal.addEventListener('abort', onAbort, { once: true }),
+    );
+    const removeCloseListener = this.onClose(onAbort);
+
+    const running = this.#heldLocks.run(heldLocks, async () =>
+      task(abortController.signal),
+    );
+    this.#tasks.add(running);
+
+    try {
+      return await running;
+    } finally {
+      this.#tasks.delete(running);
+
+      signals.forEach((signal) => signal.removeEventListener('abort', onAbort));
+      removeCloseListener();
+    }
+  }
+
+  /**
+   * Calls the given listener as soon as the locker starts closing, at once if it already has, returns a function removing it
+   */
+  protected onClose(listener: () => void): () => void {
+    if (this.#isClosing) {
+      listener();
+
+      return () => {};
+    }
+
+    this.#closeListeners.add(listener);
+
+    return () => {
+      this.#closeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * The delay, in ms, between the garbage collector's cycles, or "undefined" if the locker does not collect the "lost" locks
+   */
+  public get gcInterval(): number | undefined {
+    return this.#gcInterval;
+  }
+
+  /**
+   * Either the locker has started closing, so it does not accept new lock requests anymore, or not
+   */
+  public get isClosing(): boolean {
+    return this.#isClosing;
+  }
+
+  protected assertNotClosed(): void {
+    if (this.#isClosing) {
+      throw new LockerError(`The locker is closed`);
+    }
+  }
+
+  /**
+   * Stops accepting new lock requests, rejects the pending acquisitions, aborts the signal of the running "ensure*TaskConcurrency" tasks and waits for them, then releases all the locks, stops the garbage collector and closes the adapter
+   */
+  public async close(options?: LockerCloseOptions): Promise<void> {
+    if (!this.#closing) {
+      this.#closing = this.shutdown(options);
+    }
+
+    return this.#closing;
+  }
+
+  protected async shutdown(options?: LockerCloseOptions): Promise<void> {
+    this.#isClosing = true;
+
+    const closeListeners = [...this.#closeListeners];
+    this.#closeListeners.clear();
+    closeListeners.forEach((listener) => listener());
+
+    const timeout = options?.timeout;
+    const timeoutController = new AbortController();
+    await Promise.race([
+      Promise.allSettled(this.#tasks),
+      ...(timeout != null && timeout > 0
+        ? [sleep(timeout, timeoutController.signal)]
+        : []),
+    ]);
+    timeoutController.abort();
+
+    try {
+      // The locks of the tasks still running are released anyway, their signal being aborted
+      const locks = [...this.lockSet].filter((lock) => lock.isAcquired());
+      for (const lock of locks) {
+        while (lock.holdCount > 1) {
+          lock.unhold();
+        }
+      }
+
+      await this.releaseMany(locks);
+    } finally {
+      if (this.#gcIntervalId) {
+        clearInterval(this.#gcIntervalId);
+
+        this.#gcIntervalId = undefined;
+      }
+
+      await this.adapter.close?.();
+    }
+  }
+
+  /**
+   * Closes the locker on the first of the given signals, then raises it again unless another listener handles it, returns a function removing the listeners
+   */
+  public closeOnSignals(
+    signals: ReadonlyArray<NodeJS.Signals> = ['SIGTERM', 'SIGINT'],
+    options?: LockerCloseOptions,
+  ): () => void {
+    const removeListeners = () =>
+      signals.forEach((signal) => process.removeListener(signal, onSignal));
+
+    const onSignal = async (signal: NodeJS.Signals) => {
+      removeListeners();
+
+      try {
+        await this.close(options);
+      } catch (error) {
+        this.emit(LockerEventKind.Error, error);
+      }
+
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    };
+
+    signals.forEach((signal) => process.once(signal, onSignal));
+
+    return removeListeners;
+  }
+
+  /**
+   * Returns the names of the ancestors of the given hierarchical name, from the root: "a" & "a/b" for "a/b/c"
+   */
+  protected getAncestorNames(name: LockName): LockName[] {
+    if (!this.#separator) {
+      return [];
+    }
+
+    const parts = name.split(this.#separator);
+
+    return parts
+      .slice(1)
+      .map((_part, index) => parts.slice(0, index + 1).join(this.#separator));
+  }
+
+  /**
+   * Acquires the intention locks of the ancestors of the given hierarchical name, from the root, then the lock itself
+   */
+  protected async lockHierarchy<TLock extends AcquiredLock | undefined>(
+    name: LockName,
+    as: LockType,
+    acquire: (name: LockName, as: LockType) => Promise<TLock>,
+  ): Promise<TLock> {
+    const ancestorNames =
+      as === LockType.Reader || as === LockType.Writer
+        ? this.getAncestorNames(name)
+        : [];
+
+    if (!ancestorNames.length) {
+      return acquire(name, as);
+    }
+
+    const intentionLocks: AcquiredLock[] = [];
+    let lock: TLock | undefined;
+
+    try {
+      for (const ancestorName of ancestorNames) {
+        const intentionLock = await acquire(
+          ancestorName,
+          as === LockType.Writer
+            ? LockType.IntentionExclusive
+            : LockType.IntentionShared,
+        );
+
+        if (!intentionLock) {
+          return intentionLock;
+        }
+
+        intentionLocks.push(intentionLock);
+      }
+
+      return (lock = await acquire(name, as));
+    } finally {
+      lock
+        ? this.#intentionLocks.set(lock, intentionLocks)
+        : await this.releaseIntentionLocks(intentionLocks);
+    }
+  }
+
   protected async lock(
     name: LockName,
     as: LockType,
     options: Partial<LockOptions> = {},
   ): Promise<AcquiredLock> {
-    const lock = new Lock(name, as, options);
+    const heldLock = this.reenter(name, as);
+    if (heldLock) {
+      return heldLock;
+    }
+
+    this.assertNotClosed();
+
+    // The timeout covers the acquisition of the intention locks too
+    const acquireTimeout = options.acquireTimeout;
+    const acquireDeadline =
+      acquireTimeout != null && acquireTimeout > 0
+        ? Date.now() + acquireTimeout
+        : undefined;
+
+    return this.lockHierarchy(name, as, (name, as) =>
+      this.acquire(name, as, {
+        ...options,
+        ...(acquireDeadline && {
+          acquireTimeout: Math.max(1, acquireDeadline - Date.now()),
+        }),
+        // The intention locks are released along with the lock
+        ...((as === LockType.IntentionShared ||
+          as === LockType.IntentionExclusive) && { maxHoldDuration: null }),
+      }),
+    );
+  }
+
+  protected async acquire(
+    name: LockName,
+    as: LockType,
+    options: Partial<LockOptions>,
+  ): Promise<AcquiredLock> {
+    if (as === LockType.Semaphore && !this.adapter.lockSemaphore) {
+      throw new LockerError(`The adapter does not support semaphores`);
+    }
+
+    const fairness = options.fairness || this.#fairness;
+    this.assertFairnessSupport(fairness);
+
+    if (options.priority && !this.adapter.prioritized) {
+      throw new LockerError(`The adapter does not support the priorities`);
+    }
+
+    const lock = new Lock(name, as, {
+      ...options,
+      fairness,
+      lockerId: this.#id,
+    });
     this.lockSet.add(lock);
     this.enableGc();
 
+    const span = startAcquisitionSpan(this.#tracer, 'Locker.lock', lock);
+
     try {
       return await new Promise<AcquiredLock>(async (resolve, reject) => {
         const acquireTimeout = lock.options.acquireTimeout;
         const acquireTimeoutId =
           acquireTimeout != null && acquireTimeout > 0
             ? setTimeout(
-                () => reject(new AcquireTimeoutLockError(lock, acquireTimeout)),
+                () =>
+                  this.getBlockers(lock).then((blockers) =>
+                    reject(
+                      new AcquireTimeoutLockError(
+                        lock,
+                        acquireTimeout,
+                        blockers,
+                      ),
+                    ),
+                  ),
                 acquireTimeout,
               )
             : undefined;
 
+        const signal = lock.options.signal;
+        const onAbort = () => reject(new AbortedLockError(lock));
+
+        const onClose = () =>
+          reject(
+            new LockError(
+              lock,
+              `The lock "${lock}" has not been acquired as the locker is closing`,
+            ),
+          );
+        let removeCloseListener: (() => void) | undefined;
+
         try {
-          await this.adapter.lock(lock);
+          if (signal?.aborted) {
+            throw new AbortedLockError(lock);
+          } else if (this.#isClosing) {
+            return onClose();
+          }
+
+          signal?.addEventListener('abort', onAbort, { once: true });
+          removeCloseListener = this.onClose(onClose);
+
+          await (lock.type === LockType.Semaphore
+            ? this.adapter.lockSemaphore!(lock)
+            : this.adapter.lock(lock));
 
           lock.isAcquired()
             ? resolve(lock)
@@ -202,6 +845,8 @@ export class Locker extends EventEmitter {
           reject(error);
         } finally {
           acquireTimeoutId && clearTimeout(acquireTimeoutId);
+          signal?.removeEventListener('abort', onAbort);
+          removeCloseListener?.();
         }
       });
     } catch (error) {
@@ -218,7 +863,10 @@ export class Locker extends EventEmitter {
 
       throw lock.reason;
     } finally {
+      endAcquisitionSpan(span, lock);
+
       if (lock.isAcquired()) {
+        this.scheduleExpiration(lock);
         this.emit(LockerEventKind.AcquiredLock, lock);
       } else if (lock.isRejected()) {
         this.emit(LockerEventKind.RejectedLock, lock);
@@ -226,19 +874,371 @@ export class Locker extends EventEmitter {
     }
   }
 
-  protected async ensureTaskConcurrency<TResult>(
+  /**
+   * Acquires the lock only if it can be done immediately, without waiting in the queue, otherwise returns "undefined"
+   */
+  protected async tryLock(
     name: LockName,
-    task: (lock: AcquiredLock) => TResult | Promise<TResult>,
     as: LockType,
-    options?: Partial<LockOptions>,
-  ): Promise<TResult> {
-    const lock = await this.lock(name, as, options);
+  ): Promise<AcquiredLock | undefined> {
+    if (!this.adapter.tryLock) {
+      throw new LockerError(`The adapter does not support trying to lock`);
+    }
+
+    const heldLock = this.reenter(name, as);
+    if (heldLock) {
+      return heldLock;
+    }
+
+    this.assertNotClosed();
+
+    return this.lockHierarchy(name, as, (name, as) =>
+      this.tryAcquire(name, as),
+    );
+  }
+
+  protected async tryAcquire(
+    name: LockName,
+    as: LockType,
+  ): Promise<AcquiredLock | undefined> {
+    const lock = new Lock(name, as, {
+      fairness: this.#fairness,
+      lockerId: this.#id,
+    });
+    this.lockSet.add(lock);
+    this.enableGc();
+
+    const span = startAcquisitionSpan(this.#tracer, 'Locker.tryLock', lock);
 
     try {
-      return await task(lock);
+      await this.adapter.tryLock!(lock);
+
+      if (lock.isAcquired()) {
+        return lock;
+      }
+
+      this.lockSet.delete(lock);
+
+      lock.reject(
+        new LockError(lock, `The lock "${lock}" has not been acquired at once`),
+      );
+
+      return undefined;
+    } catch (error) {
+      this.lockSet.delete(lock);
+
+      lock.reject(
+        error instanceof LockError
+          ? error
+          : new LockError(
+              lock,
+              `The lock "${lock}" has not been acquired: ${error}`,
+            ),
+      );
+
+      throw lock.reason;
     } finally {
-      await this.release(lock);
+      endAcquisitionSpan(span, lock);
+
+      if (lock.isAcquired()) {
+        this.emit(LockerEventKind.AcquiredLock, lock);
+      } else if (lock.isRejected()) {
+        this.emit(LockerEventKind.RejectedLock, lock);
+      }
+    }
+  }
+
+  /**
+   * Upgrades the given acquired "reader" lock to a "writer" one, once the other "reader" locks are released
+   */
+  public async upgrade(
+    lock: Lock,
+    options: Pick<Partial<LockOptions>, 'acquireTimeout'> = {},
+  ): Promise<AcquiredLock> {
+    if (!this.adapter.upgrade) {
+      throw new LockerError(`The adapter does not support upgrading locks`);
+    } else if (
+      !this.lockSet.has(lock) ||
+      lock.status !== LockStatus.Acquired ||
+      lock.type !== LockType.Reader
+    ) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" has to be an acquired "${LockType.Reader}" lock to be upgraded`,
+      );
+    }
+
+    lock.status = LockStatus.Upgrading;
+
+    try {
+      await new Promise<void>(async (resolve, reject) => {
+        const acquireTimeout = options.acquireTimeout;
+        const acquireTimeoutId =
+          acquireTimeout != null && acquireTimeout > 0
+            ? setTimeout(
+                () =>
+                  this.getBlockers(lock).then((blockers) =>
+                    reject(
+                      new AcquireTimeoutLockError(
+                        lock,
+                        acquireTimeout,
+                        blockers,
+                      ),
+                    ),
+                  ),
+                acquireTimeout,
+              )
+            : undefined;
+
+        const onClose = () =>
+          reject(
+            new LockError(
+              lock,
+              `The lock "${lock}" has not been upgraded as the locker is closing`,
+            ),
+          );
+        let removeCloseListener: (() => void) | undefined;
+
+        try {
+          if (this.#isClosing) {
+            return onClose();
+          }
+
+          removeCloseListener = this.onClose(onClose);
+
+          await this.adapter.upgrade!(lock);
+
+          lock.isAcquired()
+            ? resolve()
+            : reject(
+                new LockError(lock, `The lock "${lock}" has not been upgraded`),
+              );
+        } catch (error) {
+          reject(error);
+        } finally {
+          acquireTimeoutId && clearTimeout(acquireTimeoutId);
+          removeCloseListener?.();
+        }
+      });
+    } catch (error) {
+      // The lock is still acquired as a "reader" lock
+      if (lock.isUpgrading()) {
+        lock.status = LockStatus.Acquired;
+      }
+
+      throw error;
     }
+
+    return lock as AcquiredLock;
+  }
+
+  /**
+   * Downgrades the given acquired "writer" lock to a "reader" one, keeping its position in the queue
+   */
+  public async downgrade(lock: Lock): Promise<AcquiredLock> {
+    if (!this.adapter.downgrade) {
+      throw new LockerError(`The adapter does not support downgrading locks`);
+    } else if (
+      !this.lockSet.has(lock) ||
+      !lock.isAcquired() ||
+      lock.type !== LockType.Writer
+    ) {
+      throw new LockError(
+        lock,
+        `The lock "${lock}" has to be an acquired "${LockType.Writer}" lock to be downgraded`,
+      );
+    }
+
+    await this.adapter.downgrade(lock);
+
+    return lock;
+  }
+
+  /**
+   * Acquires all the requested locks or none, one after the other in a canonical order so the concurrent calls cannot deadlock: by depth, the intention locks of their ancestors included, then by name, the "acquireTimeout" option is shared by all of them
+   *
+   * With hierarchical names, a name cannot be requested along with one of its descendants, as the intention lock of the latter would wait for the former
+   */
+  public async lockMany(
+    requests: Iterable<LockRequest>,
+    options: Partial<LockOptions> = {},
+  ): Promise<LockSet> {
+    // A name requested several times is locked once, as "writer" if requested so at least once
+    const typesByName = new Map<LockName, LockType>();
+    for (const { name, as } of requests) {
+      if (typesByName.get(name) !== LockType.Writer) {
+        typesByName.set(name, as);
+      }
+    }
+
+    const ancestorNamesByName = new Map<LockName, LockName[]>();
+    for (const [name, as] of typesByName) {
+      if (as === LockType.Reader || as === LockType.Writer) {
+        const ancestorNames = this.getAncestorNames(name);
+        const requestedAncestorName = ancestorNames.find((ancestorName) =>
+          typesByName.has(ancestorName),
+        );
+
+        if (requestedAncestorName) {
+          throw new LockerError(
+            `The lock "${name}" cannot be requested along with its ancestor "${requestedAncestorName}"`,
+          );
+        }
+
+        ancestorNamesByName.set(name, ancestorNames);
+      }
+    }
+
+    const acquireTimeout = options.acquireTimeout;
+    const acquireDeadline =
+      acquireTimeout != null && acquireTimeout > 0
+        ? Date.now() + acquireTimeout
+        : undefined;
+
+    const lockSet = new LockSet();
+    const intentionLocksByName = new Map<LockName, AcquiredLock>();
+
+    try {
+      // The locks held by the current task, or by its ancestors, are re-entered, along with their intention locks
+      for (const [name, as] of typesByName) {
+        const heldLock = this.reenter(name, as);
+        if (heldLock) {
+          // An ancestor covering several of the names is held once for them all
+          lockSet.has(heldLock) ? heldLock.unhold() : lockSet.add(heldLock);
+          typesByName.delete(name);
+          ancestorNamesByName.delete(name);
+        }
+      }
+
+      if (typesByName.size) {
+        this.assertNotClosed();
+      }
+
+      // An intention lock is taken once per ancestor, "intention-exclusive" if any of its descendants is requested as "writer"
+      const intentionTypesByName = new Map<LockName, LockType>();
+      for (const [name, ancestorNames] of ancestorNamesByName) {
+        for (const ancestorName of ancestorNames) {
+          if (
+            intentionTypesByName.get(ancestorName) !==
+            LockType.IntentionExclusive
+          ) {
+            intentionTypesByName.set(
+              ancestorName,
+              typesByName.get(name) === LockType.Writer
+                ? LockType.IntentionExclusive
+                : LockType.IntentionShared,
+            );
+          }
+        }
+      }
+
+      const getDepth = (name: LockName): number =>
+        this.getAncestorNames(name).length;
+
+      for (const [name, as] of [...intentionTypesByName, ...typesByName].sort(
+        ([a], [b]) => getDepth(a) - getDepth(b) || (a < b ? -1 : a > b ? 1 : 0),
+      )) {
+        const isIntention = intentionTypesByName.has(name);
+        const lock = await this.acquire(name, as, {
+          ...options,
+          ...(acquireDeadline && {
+            acquireTimeout: Math.max(1, acquireDeadline - Date.now()),
+          }),
+          // The intention locks are released along with the locks
+          ...(isIntention && { maxHoldDuration: null }),
+        });
+
+        isIntention ? intentionLocksByName.set(name, lock) : lockSet.add(lock);
+      }
+    } catch (error) {
+      await this.releaseMany([...lockSet, ...intentionLocksByName.values()]);
+
+      throw error;
+    }
+
+    // Each intention lock is held once per descendant, and released along with the last of them
+    for (const lock of lockSet) {
+      const ancestorNames = ancestorNamesByName.get(lock.name);
+      if (ancestorNames?.length) {
+        const intentionLocks = ancestorNames.map(
+          (ancestorName) => intentionLocksByName.get(ancestorName)!,
+        );
+
+        intentionLocks.forEach((intentionLock) => intentionLock.hold());
+        this.#intentionLocks.set(lock, intentionLocks);
+      }
+    }
+
+    await this.releaseMany(intentionLocksByName.values());
+
+    return lockSet;
+  }
+
+  /**
+   * The task receives a signal aborted as soon as one of the locks' signal is aborted, the "signal" option is or the locker starts closing
+   */
+  public async ensureManyTaskConcurrency<TResult>(
+    requests: Iterable<LockRequest>,
+    task: (lockSet: LockSet, signal: AbortSignal) => TResult | Promise<TResult>,
+    options?: Partial<LockOptions>,
+  ): Promise<TResult> {
+    const lockRequests = [...requests];
+
+    return withActiveSpan(
+      this.#tracer,
+      'Locker.ensureManyTaskConcurrency',
+      {
+        'lock.names': lockRequests.map(({ name }) => name),
+        'lock.types': lockRequests.map(({ as }) => as),
+      },
+      async () => {
+        const lockSet = await this.lockMany(lockRequests, options);
+
+        try {
+          return await this.runWithHeldLocks(
+            lockSet,
+            (signal) => task(lockSet, signal),
+            options?.signal,
+          );
+        } finally {
+          await this.releaseMany(lockSet);
+        }
+      },
+    );
+  }
+
+  protected async ensureTaskConcurrency<TResult>(
+    name: LockName,
+    task: (
+      lock: AcquiredLock,
+      signal: AbortSignal,
+    ) => TResult | Promise<TResult>,
+    as: LockType,
+    options?: Partial<LockOptions>,
+  ): Promise<TResult> {
+    return withActiveSpan(
+      this.#tracer,
+      'Locker.ensureTaskConcurrency',
+      { 'lock.name': name, 'lock.type': as },
+      async (span) => {
+        const lock = await this.lock(name, as, options);
+        span.setAttribute('lock.id', lock.id);
+
+        try {
+          return await this.runWithHeldLocks(
+            [lock],
+            (signal) => task(lock, signal),
+            options?.signal,
+          );
+        } finally {
+          await this.release(lock);
+
+          if (lock.acquiredFor !== undefined) {
+            span.setAttribute('lock.hold_duration_ms', lock.acquiredFor);
+          }
+        }
+      },
+    );
   }
 
   public async lockAsWriter(
@@ -248,9 +1248,18 @@ export class Locker extends EventEmitter {
     return this.lock(name, LockType.Writer, options);
   }
 
+  public async tryLockAsWriter(
+    name: LockName,
+  ): Promise<AcquiredLock | undefined> {
+    return this.tryLock(name, LockType.Writer);
+  }
+
   public async ensureWritingTaskConcurrency<TResult>(
     name: LockName,
-    task: (lock: AcquiredLock) => TResult | Promise<TResult>,
+    task: (
+      lock: AcquiredLock,
+      signal: AbortSignal,
+    ) => TResult | Promise<TResult>,
     options?: Partial<LockOptions>,
   ): Promise<TResult> {
     return this.ensureTaskConcurrency(name, task, LockType.Writer, options);
@@ -263,11 +1272,41 @@ export class Locker extends EventEmitter {
     return this.lock(name, LockType.Reader, options);
   }
 
+  public async tryLockAsReader(
+    name: LockName,
+  ): Promise<AcquiredLock | undefined> {
+    return this.tryLock(name, LockType.Reader);
+  }
+
   public async ensureReadingTaskConcurrency<TResult>(
     name: LockName,
-    task: (lock: AcquiredLock) => TResult | Promise<TResult>,
+    task: (
+      lock: AcquiredLock,
+      signal: AbortSignal,
+    ) => TResult | Promise<TResult>,
     options?: Partial<LockOptions>,
   ): Promise<TResult> {
     return this.ensureTaskConcurrency(name, task, LockType.Reader, options);
   }
+
+  /**
+   * Acquires one of the "permits" of the semaphore, the locks waiting for one in FIFO order
+   */
+  public async acquireSemaphore(
+    name: LockName,
+    options: SemaphoreOptions,
+  ): Promise<AcquiredLock> {
+    return this.lock(name, LockType.Semaphore, options);
+  }
+
+  public async ensureSemaphoreTaskConcurrency<TResult>(
+    name: LockName,
+    task: (
+      lock: AcquiredLock,
+      signal: AbortSignal,
+    ) => TResult | Promise<TResult>,
+    options: SemaphoreOptions,
+  ): Promise<TResult> {
+    return this.ensureTaskConcurrency(name, task, LockType.Semaphore, options);
+  }
 }
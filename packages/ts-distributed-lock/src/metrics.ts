@@ -0,0 +1,386 @@
+import { LockName, LockStatus, LockType } from './lock';
+import { Locker, LockerEventKind, LockerEventMap } from './locker';
+
+type Labels = Record<string, string>;
+
+export type LockerMetricsOptions = Partial<{
+  /**
+   * Optional, prefix of the metrics' names, default: "locker_"
+   */
+  prefix: string;
+
+  /**
+   * Optional, upper bounds, in seconds, of the histograms' buckets, default: from 5ms to 60s
+   */
+  buckets: number[];
+
+  /**
+   * Optional, maps the lock's name to its "name" label, as "article:123" to "article", default: the lock's name as-is
+   */
+  nameLabel: (name: LockName) => string;
+
+  /**
+   * Optional, the number of distinct "name" labels, the next ones being gathered under the "__other__" one, default: none
+   */
+  maxNames: number;
+}>;
+
+const defaultBuckets = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+const otherNameLabel = '__other__';
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+
+  return entries.length > 0
+    ? `{${entries
+        .map(([label, value]) => `${label}="${escapeLabelValue(value)}"`)
+        .join(',')}}`
+    : '';
+};
+
+const formatValue = (value: number): string =>
+  value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+
+abstract class Metric<TValue> {
+  protected readonly values = new Map<
+    string,
+    { labels: Labels; value: TValue }
+  >();
+
+  public abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  public constructor(readonly name: string, readonly help: string) {}
+
+  protected abstract create(): TValue;
+
+  protected get(labels: Labels): TValue {
+    const key = formatLabels(labels);
+
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, value: this.create() };
+      this.values.set(key, entry);
+    }
+
+    return entry.value;
+  }
+
+  protected abstract renderValue(labels: Labels, value: TValue): string[];
+
+  public render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.values.values()].flatMap(({ labels, value }) =>
+        this.renderValue(labels, value),
+      ),
+    ].join('\n');
+  }
+}
+
+class Counter extends Metric<{ count: number }> {
+  public readonly type = 'counter';
+
+  protected create() {
+    return { count: 0 };
+  }
+
+  public inc(labels: Labels, value: number = 1): void {
+    this.get(labels).count += value;
+  }
+
+  protected renderValue(labels: Labels, { count }: { count: number }) {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(count)}`];
+  }
+}
+
+class Gauge extends Metric<{ count: number }> {
+  public readonly type = 'gauge';
+
+  protected create() {
+    return { count: 0 };
+  }
+
+  /**
+   * Sets all the known labels at 0, so they do not disappear
+   */
+  public reset(): void {
+    this.values.forEach(({ value }) => (value.count = 0));
+  }
+
+  public set(labels: Labels, value: number): void {
+    this.get(labels).count = value;
+  }
+
+  protected renderValue(labels: Labels, { count }: { count: number }) {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(count)}`];
+  }
+}
+
+type HistogramValue = { buckets: number[]; sum: number; count: number };
+
+class Histogram extends Metric<HistogramValue> {
+  public readonly type = 'histogram';
+
+  public constructor(
+    name: string,
+    help: string,
+    readonly upperBounds: number[],
+  ) {
+    super(name, help);
+  }
+
+  protected create(): HistogramValue {
+    return { buckets: this.upperBounds.map(() => 0), sum: 0, count: 0 };
+  }
+
+  public observe(labels: Labels, value: number): void {
+    const histogram = this.get(labels);
+
+    this.upperBounds.forEach((upperBound, index) => {
+      if (value <= upperBound) {
+        histogram.buckets[index]++;
+      }
+    });
+
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  protected renderValue(
+    labels: Labels,
+    { buckets, sum, count }: HistogramValue,
+  ) {
+    return [
+      ...this.upperBounds.map(
+        (upperBound, index) =>
+          `${this.name}_bucket${formatLabels({
+            ...labels,
+            le: formatValue(upperBound),
+          })} ${buckets[index]}`,
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ];
+  }
+}
+
+/**
+ * Collects the metrics of a locker, from its events and its "lockSet", and renders them in the Prometheus text exposition format
+ */
+export class LockerMetrics {
+  readonly #nameLabels = new Set<string>();
+
+  readonly #acquiredLocks: Counter;
+  readonly #rejectedLocks: Counter;
+  readonly #releasedLocks: Counter;
+  readonly #lostLocks: Counter;
+  readonly #expiredLocks: Counter;
+  readonly #waitDuration: Histogram;
+  readonly #holdDuration: Histogram;
+  readonly #heldLocks: Gauge;
+  readonly #waitingLocks: Gauge;
+  readonly #gcDuration: Histogram;
+  readonly #gcCollectedLocks: Counter;
+
+  public constructor(
+    readonly locker: Locker,
+    readonly options: LockerMetricsOptions = {},
+  ) {
+    if (
+      options.maxNames != null &&
+      (!Number.isSafeInteger(options.maxNames) || options.maxNames < 0)
+    ) {
+      throw new TypeError(
+        `The "maxNames" option has to be an integer greater than or equal to 0, got: ${options.maxNames}`,
+      );
+    }
+
+    const prefix = options.prefix ?? 'locker_';
+    const buckets = [...(options.buckets ?? defaultBuckets)].sort(
+      (a, b) => a - b,
+    );
+
+    this.#acquiredLocks = new Counter(
+      `${prefix}acquired_locks_total`,
+      'The number of acquired locks',
+    );
+    this.#rejectedLocks = new Counter(
+      `${prefix}rejected_locks_total`,
+      'The number of rejected locks',
+    );
+    this.#releasedLocks = new Counter(
+      `${prefix}released_locks_total`,
+      'The number of released locks',
+    );
+    this.#lostLocks = new Counter(
+      `${prefix}lost_locks_total`,
+      'The number of lost locks',
+    );
+    this.#expiredLocks = new Counter(
+      `${prefix}expired_locks_total`,
+      'The number of locks force-released after their "maxHoldDuration"',
+    );
+    this.#waitDuration = new Histogram(
+      `${prefix}lock_wait_duration_seconds`,
+      'The time the locks waited before being acquired or rejected',
+      buckets,
+    );
+    this.#holdDuration = new Histogram(
+      `${prefix}lock_hold_duration_seconds`,
+      'The time the locks were held before being released',
+      buckets,
+    );
+    this.#heldLocks = new Gauge(
+      `${prefix}held_locks`,
+      'The number of locks currently held',
+    );
+    this.#waitingLocks = new Gauge(
+      `${prefix}waiting_locks`,
+      'The number of locks currently waiting',
+    );
+    this.#gcDuration = new Histogram(
+      `${prefix}gc_duration_seconds`,
+      'The time the garbage collecting cycles took',
+      buckets,
+    );
+    this.#gcCollectedLocks = new Counter(
+      `${prefix}gc_collected_locks_total`,
+      'The number of locks collected by the garbage collector',
+    );
+
+    locker
+      .on(LockerEventKind.AcquiredLock, this.#onAcquiredLock)
+      .on(LockerEventKind.RejectedLock, this.#onRejectedLock)
+      .on(LockerEventKind.ReleasedLock, this.#onReleasedLock)
+      .on(LockerEventKind.LostLock, this.#onLostLock)
+      .on(LockerEventKind.ExpiredLock, this.#onExpiredLock)
+      .on(LockerEventKind.GarbageCycle, this.#onGarbageCycle);
+  }
+
+  protected getNameLabel(name: LockName): string {
+    const nameLabel = this.options.nameLabel
+      ? this.options.nameLabel(name)
+      : name;
+
+    if (!this.#nameLabels.has(nameLabel)) {
+      if (
+        this.options.maxNames != null &&
+        this.#nameLabels.size >= this.options.maxNames
+      ) {
+        return otherNameLabel;
+      }
+
+      this.#nameLabels.add(nameLabel);
+    }
+
+    return nameLabel;
+  }
+
+  protected getLabels({ name, type }: { name: LockName; type: LockType }) {
+    return { name: this.getNameLabel(name), type };
+  }
+
+  #onAcquiredLock = (lock: LockerEventMap[LockerEventKind.AcquiredLock]) => {
+    this.#acquiredLocks.inc(this.getLabels(lock));
+    this.#waitDuration.observe(this.getLabels(lock), lock.settledIn / 1000);
+  };
+
+  #onRejectedLock = (lock: LockerEventMap[LockerEventKind.RejectedLock]) => {
+    this.#rejectedLocks.inc(this.getLabels(lock));
+    this.#waitDuration.observe(this.getLabels(lock), lock.settledIn / 1000);
+  };
+
+  #onReleasedLock = (lock: LockerEventMap[LockerEventKind.ReleasedLock]) => {
+    this.#releasedLocks.inc(this.getLabels(lock));
+    this.#holdDuration.observe(this.getLabels(lock), lock.acquiredFor / 1000);
+  };
+
+  #onLostLock = (lock: LockerEventMap[LockerEventKind.LostLock]) => {
+    this.#lostLocks.inc(this.getLabels(lock));
+  };
+
+  #onExpiredLock = (lock: LockerEventMap[LockerEventKind.ExpiredLock]) => {
+    this.#expiredLocks.inc(this.getLabels(lock));
+  };
+
+  #onGarbageCycle = (
+    garbageCycle: LockerEventMap[LockerEventKind.GarbageCycle],
+  ) => {
+    this.#gcDuration.observe({}, garbageCycle.tookInMs / 1000);
+    this.#gcCollectedLocks.inc({}, garbageCycle.collectedCount);
+  };
+
+  /**
+   * Stops collecting the metrics of the locker
+   */
+  public disconnect(): void {
+    this.locker
+      .off(LockerEventKind.AcquiredLock, this.#onAcquiredLock)
+      .off(LockerEventKind.RejectedLock, this.#onRejectedLock)
+      .off(LockerEventKind.ReleasedLock, this.#onReleasedLock)
+      .off(LockerEventKind.LostLock, this.#onLostLock)
+      .off(LockerEventKind.ExpiredLock, this.#onExpiredLock)
+      .off(LockerEventKind.GarbageCycle, this.#onGarbageCycle);
+  }
+
+  /**
+   * Renders the metrics in the Prometheus text exposition format
+   */
+  public render(): string {
+    // The gauges are computed from the current "lockSet"
+    const heldLocks = new Map<string, { labels: Labels; count: number }>();
+    const waitingLocks = new Map<string, { labels: Labels; count: number }>();
+
+    for (const lock of this.locker.lockSet) {
+      const gauge =
+        lock.status === LockStatus.Acquired ||
+        lock.status === LockStatus.Upgrading
+          ? heldLocks
+          : lock.status === LockStatus.Acquiring
+          ? waitingLocks
+          : undefined;
+
+      if (gauge) {
+        const labels = this.getLabels(lock);
+        const key = formatLabels(labels);
+
+        gauge.set(key, {
+          labels,
+          count: (gauge.get(key)?.count ?? 0) + 1,
+        });
+      }
+    }
+
+    for (const [gauge, counts] of [
+      [this.#heldLocks, heldLocks],
+      [this.#waitingLocks, waitingLocks],
+    ] as const) {
+      gauge.reset();
+      counts.forEach(({ labels, count }) => gauge.set(labels, count));
+    }
+
+    return `${[
+      this.#acquiredLocks,
+      this.#rejectedLocks,
+      this.#releasedLocks,
+      this.#lostLocks,
+      this.#expiredLocks,
+      this.#waitDuration,
+      this.#holdDuration,
+      this.#heldLocks,
+      this.#waitingLocks,
+      this.#gcDuration,
+      this.#gcCollectedLocks,
+    ]
+      .map((metric) => metric.render())
+      .join('\n')}\n`;
+  }
+}
@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import { LockerError } from './error';
+import { LockName } from './lock';
+import { Locker } from './locker';
+import { Schedule } from './scheduler/schedule';
+import { sleep } from './utils';
+
+export * from './scheduler/schedule';
+
+export enum OverlapPolicy {
+  /**
+   * A tick is skipped while the previous run is still running, on any instance
+   */
+  Skip = 'SKIP',
+
+  /**
+   * A tick waits for the previous run to complete, on any instance
+   */
+  Queue = 'QUEUE',
+}
+
+export enum ScheduledJobEventKind {
+  Run = 'run',
+  Skipped = 'skipped',
+  Error = 'error',
+}
+
+export type ScheduledJobEventMap = {
+  [ScheduledJobEventKind.Run]: Date;
+  [ScheduledJobEventKind.Skipped]: Date;
+  [ScheduledJobEventKind.Error]: Error;
+};
+
+/**
+ * Runs the given tick, the signal is aborted if the lock of the job is lost
+ */
+export type ScheduledTask = (tick: Date, signal: AbortSignal) => unknown;
+
+export type ScheduledJobOptions = Partial<{
+  /**
+   * Optional, what to do with a tick while the previous run is still running, default: "SKIP"
+   */
+  overlap: OverlapPolicy;
+
+  /**
+   * Optional, runs the latest tick missed since the last run, as during a downtime of all the instances, once started, default: false
+   *
+   * The last runs are recorded by the adapter, the job cannot be started at all with an adapter not supporting them
+   */
+  catchUp: boolean;
+}>;
+
+/**
+ * The delay of "setTimeout" is a signed 32-bit integer
+ */
+const MAX_DELAY = 2 ** 31 - 1;
+
+/**
+ * Runs a task on a schedule, a single instance of the cluster running each tick: the instances claim it through a "writer" lock named after the job and the tick, as "my-report@2021-07-01T10:00:00.000Z", the first one records it as the last run of the job in the adapter, the other ones find it recorded and skip it
+ *
+ * The adapter forgets the lock of each tick once claimed, if it can, so nothing is left behind by the ticks
+ *
+ * The ticks are named after the schedule, not after the clock of the instances, so a drifting clock only makes an instance claim the ticks a bit earlier or later
+ */
+export class ScheduledJob extends EventEmitter {
+  #abortController: AbortController | undefined;
+  #loop: Promise<void> | undefined;
+  #runs = new Set<Promise<void>>();
+
+  public constructor(
+    readonly locker: Locker,
+    readonly name: LockName,
+    readonly schedule: Schedule,
+    readonly task: ScheduledTask,
+    readonly options: ScheduledJobOptions = {},
+  ) {
+    super();
+  }
+
+  /**
+   * The name of the lock the given tick is claimed through, distinct from the one of the runs so a tick can be claimed while the previous run is still running
+   */
+  public getClaimLockName(tick: Date): LockName {
+    return `${this.name}@${tick.toISOString()}`;
+  }
+
+  /**
+   * Starts running the ticks, in the background, until "stop" is called: a "run" event is emitted for each tick run by this instance, a "skipped" one for each tick skipped as the previous run was still running
+   */
+  public start(): void {
+    if (
+      !this.locker.adapter.getLastRunAt ||
+      !this.locker.adapter.setLastRunAt
+    ) {
+      throw new LockerError(`The adapter does not support the scheduled jobs`);
+    }
+
+    if (!this.#abortController) {
+      this.#abortController = new AbortController();
+      this.#loop = this.run(this.#abortController.signal);
+    }
+  }
+
+  protected async run(signal: AbortSignal): Promise<void> {
+    let tick = this.schedule(new Date());
+
+    if (this.options.catchUp) {
+      try {
+        const lastRunAt = await this.locker.adapter.getLastRunAt!(this.name);
+        const now = new Date();
+
+        let missedTick: Date | undefined;
+        for (
+          let nextTick = lastRunAt && this.schedule(lastRunAt);
+          nextTick && nextTick <= now;
+          nextTick = this.schedule(nextTick)
+        ) {
+          missedTick = nextTick;
+        }
+
+        if (missedTick) {
+          this.track(missedTick, signal);
+        }
+      } catch (error) {
+        this.emitError(error);
+      }
+    }
+
+    while (!signal.aborted) {
+      // The timers may fire a bit early and cannot wait for too long
+      for (
+        let delay = tick.getTime() - Date.now();
+        delay > 0 && !signal.aborted;
+        delay = tick.getTime() - Date.now()
+      ) {
+        await sleep(Math.min(delay, MAX_DELAY), signal);
+      }
+
+      if (!signal.aborted) {
+        this.track(tick, signal);
+
+        // The ticks missed while this instance was busy are left to the other instances
+        tick = this.schedule(new Date(Math.max(tick.getTime(), Date.now())));
+      }
+    }
+  }
+
+  /**
+   * The "error" event is only emitted if listened, as the EventEmitter would throw it otherwise
+   */
+  protected emitError(error: Error): void {
+    if (this.listenerCount(ScheduledJobEventKind.Error) > 0) {
+      this.emit(ScheduledJobEventKind.Error, error);
+    }
+  }
+
+  protected track(tick: Date, signal: AbortSignal): void {
+    const run = this.runTick(tick, signal)
+      .catch(() => {
+        // Do nothing, a run has no one to report to but the "error" listeners
+      })
+      .finally(() => this.#runs.delete(run));
+
+    this.#runs.add(run);
+  }
+
+  protected async runTick(tick: Date, signal: AbortSignal): Promise<void> {
+    const adapter = this.locker.adapter;
+    const claimLockName = this.getClaimLockName(tick);
+
+    try {
+      // The instances claim the tick one after the other, only the first one runs it
+      const claimed = await this.locker.ensureWritingTaskConcurrency(
+        claimLockName,
+        async () => {
+          const lastRunAt = await adapter.getLastRunAt!(this.name);
+          if (lastRunAt && lastRunAt >= tick) {
+            return false;
+          }
+
+          await adapter.setLastRunAt!(this.name, tick);
+
+          return true;
+        },
+        { signal },
+      );
+
+      await this.forget(claimLockName);
+
+      if (!claimed) {
+        return;
+      }
+
+      // The runs do not overlap, whatever the instances running them
+      if (this.options.overlap === OverlapPolicy.Queue) {
+        await this.locker.ensureWritingTaskConcurrency(
+          this.name,
+          (_lock, lockSignal) => this.execute(tick, lockSignal),
+          { signal },
+        );
+      } else {
+        const lock = await this.locker.tryLockAsWriter(this.name);
+        if (!lock) {
+          this.emit(ScheduledJobEventKind.Skipped, tick);
+
+          return;
+        }
+
+        try {
+          await this.execute(tick, lock.signal);
+        } finally {
+          await this.locker.release(lock);
+        }
+      }
+    } catch (error) {
+      // The acquisitions are aborted once stopped
+      if (!signal.aborted) {
+        this.emitError(error);
+      }
+    }
+  }
+
+  /**
+   * Drops what the adapter stores for the lock of a claimed tick, a failure not preventing the tick from running
+   */
+  protected async forget(claimLockName: LockName): Promise<void> {
+    try {
+      await this.locker.adapter.forget?.(claimLockName);
+    } catch (error) {
+      this.emitError(error);
+    }
+  }
+
+  protected async execute(tick: Date, signal: AbortSignal): Promise<void> {
+    this.emit(ScheduledJobEventKind.Run, tick);
+
+    try {
+      await this.task(tick, signal);
+    } catch (error) {
+      this.emitError(error);
+    }
+  }
+
+  /**
+   * Stops running the ticks, the current runs are awaited
+   */
+  public async stop(): Promise<void> {
+    this.#abortController?.abort();
+    this.#abortController = undefined;
+
+    await this.#loop;
+    this.#loop = undefined;
+
+    await Promise.all(this.#runs);
+  }
+}
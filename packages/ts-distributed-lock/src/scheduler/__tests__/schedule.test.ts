@@ -0,0 +1,55 @@
+import { cronSchedule, intervalSchedule } from '../schedule';
+
+describe('Schedule', () => {
+  it('ticks every interval, aligned on the epoch', () => {
+    expect(() => intervalSchedule(0)).toThrowError(TypeError);
+    expect(() => intervalSchedule(1.5)).toThrowError(TypeError);
+
+    const schedule = intervalSchedule(60_000);
+    expect(schedule(new Date('2021-07-01T10:15:30.123Z'))).toEqual(
+      new Date('2021-07-01T10:16:00.000Z'),
+    );
+    expect(schedule(new Date('2021-07-01T10:16:00.000Z'))).toEqual(
+      new Date('2021-07-01T10:17:00.000Z'),
+    );
+  });
+
+  it('ticks according to a cron expression, in UTC', () => {
+    expect(() => cronSchedule('* * * *')).toThrowError(TypeError);
+    expect(() => cronSchedule('60 * * * *')).toThrowError(TypeError);
+    expect(() => cronSchedule('5-1 * * * *')).toThrowError(TypeError);
+    expect(() => cronSchedule('*/0 * * * *')).toThrowError(TypeError);
+    expect(() => cronSchedule('a * * * *')).toThrowError(TypeError);
+
+    const after = new Date('2021-07-01T10:15:30.123Z'); // A Thursday
+
+    expect(cronSchedule('* * * * *')(after)).toEqual(
+      new Date('2021-07-01T10:16:00.000Z'),
+    );
+    expect(cronSchedule('*/20 * * * *')(after)).toEqual(
+      new Date('2021-07-01T10:20:00.000Z'),
+    );
+    expect(cronSchedule('0,30 9-10 * * *')(after)).toEqual(
+      new Date('2021-07-01T10:30:00.000Z'),
+    );
+    expect(cronSchedule('0 9 * * 1-5')(after)).toEqual(
+      new Date('2021-07-02T09:00:00.000Z'),
+    );
+    expect(cronSchedule('0 0 * * 7')(after)).toEqual(
+      new Date('2021-07-04T00:00:00.000Z'),
+    );
+    expect(cronSchedule('0 0 1 1 *')(after)).toEqual(
+      new Date('2022-01-01T00:00:00.000Z'),
+    );
+    expect(cronSchedule('0 0 29 2 *')(after)).toEqual(
+      new Date('2024-02-29T00:00:00.000Z'),
+    );
+
+    // Both the day-of-month and the day-of-week are restricted: either of them matches
+    expect(cronSchedule('0 0 15 * 6')(after)).toEqual(
+      new Date('2021-07-03T00:00:00.000Z'),
+    );
+
+    expect(() => cronSchedule('0 0 30 2 *')(after)).toThrowError(TypeError);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Returns the first tick strictly after the given date
+ *
+ * The ticks only depend on the schedule, not on the instance computing them, so all the instances agree on them whatever their clock drift
+ */
+export type Schedule = (after: Date) => Date;
+
+/**
+ * Ticks every "interval"ms, aligned on the Unix epoch
+ */
+export function intervalSchedule(interval: number): Schedule {
+  if (!(interval > 0) || !Number.isInteger(interval)) {
+    throw new TypeError(`The "interval" has to be an integer greater than 0`);
+  }
+
+  return (after) =>
+    new Date((Math.floor(after.getTime() / interval) + 1) * interval);
+}
+
+type CronField = {
+  values: Set<number>;
+
+  /**
+   * Whether the field does not start with "*", used to combine the day-of-month and day-of-week fields
+   */
+  restricted: boolean;
+};
+
+function parseCronField(
+  expression: string,
+  field: string,
+  min: number,
+  max: number,
+): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new TypeError(`The cron expression "${expression}" is invalid`);
+    }
+
+    const [, range, from, to, step] = match;
+    const start = range === '*' ? min : Number(from);
+    const end =
+      range === '*' ? max : to ? Number(to) : step ? max : Number(from);
+    const increment = step ? Number(step) : 1;
+
+    if (start < min || end > max || start > end || increment < 1) {
+      throw new TypeError(`The cron expression "${expression}" is invalid`);
+    }
+
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return { values, restricted: !field.startsWith('*') };
+}
+
+/**
+ * Ticks according to the given cron expression, evaluated in UTC: "minute hour day-of-month month day-of-week", each field supporting "*", values, ranges, steps and lists, as "*\/15 9-17 * * 1-5"
+ *
+ * As with cron, if both the day-of-month and the day-of-week are restricted, a day matching either of them matches
+ */
+export function cronSchedule(expression: string): Schedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new TypeError(
+      `The cron expression "${expression}" has to contain 5 fields`,
+    );
+  }
+
+  const minutes = parseCronField(expression, fields[0], 0, 59);
+  const hours = parseCronField(expression, fields[1], 0, 23);
+  const daysOfMonth = parseCronField(expression, fields[2], 1, 31);
+  const months = parseCronField(expression, fields[3], 1, 12);
+  const daysOfWeek = parseCronField(expression, fields[4], 0, 7);
+
+  // Both 0 and 7 are Sunday
+  if (daysOfWeek.values.has(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  const matchesDay = (date: Date): boolean => {
+    const matchesDayOfMonth = daysOfMonth.values.has(date.getUTCDate());
+    const matchesDayOfWeek = daysOfWeek.values.has(date.getUTCDay());
+
+    return daysOfMonth.restricted && daysOfWeek.restricted
+      ? matchesDayOfMonth || matchesDayOfWeek
+      : matchesDayOfMonth && matchesDayOfWeek;
+  };
+
+  return (after) => {
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    // An expression as "0 0 30 2 *" never matches, the leap years included
+    const maxYear = date.getUTCFullYear() + 8;
+
+    while (date.getUTCFullYear() <= maxYear) {
+      if (!months.values.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0, 0);
+      } else if (!matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+      } else if (!hours.values.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      } else if (!minutes.values.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      } else {
+        return date;
+      }
+    }
+
+    throw new TypeError(`The cron expression "${expression}" never matches`);
+  };
+}
@@ -0,0 +1,91 @@
+import {
+  Span,
+  SpanAttributes,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  Tracer,
+} from '@opentelemetry/api';
+import { Lock } from './lock';
+
+/**
+ * The tracer of the globally registered provider, a no-op one if none
+ */
+export const getDefaultTracer = (): Tracer =>
+  trace.getTracer('@prismamedia/ts-distributed-lock');
+
+const setError = (span: Span, error: unknown): void => {
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+/**
+ * Starts the span covering the acquisition of the given lock, as a child of the active one
+ */
+export const startAcquisitionSpan = (
+  tracer: Tracer,
+  name: string,
+  lock: Lock,
+): Span =>
+  tracer.startSpan(name, {
+    kind: SpanKind.INTERNAL,
+    attributes: {
+      'lock.name': lock.name,
+      'lock.type': lock.type,
+      'lock.id': lock.id,
+    },
+  });
+
+/**
+ * Ends the span covering the acquisition of the given lock, once it is settled
+ */
+export const endAcquisitionSpan = (span: Span, lock: Lock): void => {
+  span.setAttributes({
+    'lock.status': lock.status,
+    'lock.wait_attempts': lock.waitAttempts,
+    ...(lock.settledIn !== undefined && {
+      'lock.wait_duration_ms': lock.settledIn,
+    }),
+    ...(lock.fencingToken !== undefined && {
+      'lock.fencing_token': lock.fencingToken,
+    }),
+  });
+
+  if (lock.reason) {
+    span.setAttribute('lock.rejection_reason', lock.reason.message);
+    setError(span, lock.reason);
+  }
+
+  span.end();
+};
+
+/**
+ * Runs the given function in an active span, so the spans it starts are its children
+ */
+export const withActiveSpan = <TResult>(
+  tracer: Tracer,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<TResult>,
+): Promise<TResult> =>
+  tracer.startActiveSpan(
+    name,
+    { kind: SpanKind.INTERNAL, attributes },
+    async (span) => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        setError(span, error);
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  );
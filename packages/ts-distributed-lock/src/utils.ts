@@ -1,3 +1,22 @@
-export async function sleep(ms: number): Promise<true> {
-  return new Promise<true>((resolve) => setTimeout(resolve, ms, true));
+/**
+ * Resolves after "ms"ms, or as soon as the given signal is aborted
+ */
+export async function sleep(ms: number, signal?: AbortSignal): Promise<true> {
+  return new Promise<true>((resolve) => {
+    if (signal?.aborted) {
+      return resolve(true);
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve(true);
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }